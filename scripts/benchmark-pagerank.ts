@@ -0,0 +1,199 @@
+// Benchmark of the CSR PageRank engine against the previous Map-based one
+//
+// Usage: npm run bench -- [sizes...]   e.g. npm run bench -- 1000 10000
+// Synthetic curricula are generated from a fixed seed, so runs are reproducible.
+
+import { performance } from 'node:perf_hooks';
+import { Course, Prerequisite } from '../src/types/Course';
+import { GraphAnalysis } from '../src/algorithms/GraphAnalysis';
+import { RequirementGroups } from '../src/algorithms/Requirements';
+import { PageRankCalculator } from '../src/algorithms/PageRank';
+
+const DEFAULT_SIZES = [1_000, 10_000, 100_000];
+const SEED = 20240601;
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-6;
+
+interface Curriculum {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+interface Scenario {
+  label: string;
+  weighted: boolean;
+  personalized: boolean;
+}
+
+const SCENARIOS: Scenario[] = [
+  { label: 'uniform', weighted: false, personalized: false },
+  { label: 'weighted + personalized', weighted: true, personalized: true }
+];
+
+/** Mulberry32: small, fast and good enough for test data */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Courses in eight year-like levels; each course outside the first level
+ * requires up to four courses from lower levels, sometimes as a one-of group,
+ * with the occasional recommended or weighted edge
+ */
+function generateCurriculum(size: number, random: () => number): Curriculum {
+  const levels = 8;
+  const courses: Course[] = [];
+  const prerequisites: Prerequisite[] = [];
+
+  for (let index = 0; index < size; index++) {
+    courses.push({ id: `C${index}`, name: `Course ${index}`, credits: 3 });
+  }
+
+  const levelSize = Math.ceil(size / levels);
+  for (let index = levelSize; index < size; index++) {
+    const lowerCount = Math.floor(index / levelSize) * levelSize;
+    const count = Math.floor(random() * 5);
+    const group = random() < 0.15 ? 'alt' : undefined;
+    for (let k = 0; k < count; k++) {
+      // Favor nearby levels, as real curricula do
+      const offset = Math.floor(Math.pow(random(), 2) * lowerCount);
+      const roll = random();
+      prerequisites.push({
+        prerequisite: `C${lowerCount - 1 - offset}`,
+        course: `C${index}`,
+        group: k < 2 ? group : undefined,
+        strength: roll < 0.1 ? 'recommended' : undefined,
+        weight: roll > 0.95 ? 2 : undefined
+      });
+    }
+  }
+  return { courses, prerequisites };
+}
+
+/** The PageRank loop as it was before the CSR engine, kept as the reference */
+function referencePageRank(
+  courses: Course[],
+  prerequisites: Prerequisite[],
+  weighted: boolean,
+  personalization?: Map<string, number>
+): Map<string, number> {
+  const { nodes, prerequisites: knownEdges } = GraphAnalysis.buildAdjacency(courses, prerequisites);
+  const edgeShares = RequirementGroups.edgeShares(knownEdges, weighted);
+  const N = courses.length;
+  const pageRanks = new Map<string, number>();
+  courses.forEach(course => pageRanks.set(course.id, 1.0 / N));
+
+  const buildDistribution = (preferences?: Map<string, number>) => {
+    const distribution = new Map<string, number>();
+    const total = preferences
+      ? courses.reduce((sum, course) => sum + Math.max(preferences.get(course.id) ?? 0, 0), 0)
+      : 0;
+    courses.forEach(course => {
+      distribution.set(
+        course.id,
+        preferences && total > 0 ? Math.max(preferences.get(course.id) ?? 0, 0) / total : 1 / courses.length
+      );
+    });
+    return distribution;
+  };
+
+  const danglingCourses = courses.filter(course => nodes.get(course.id)!.prerequisites.length === 0);
+  const teleportDistribution = buildDistribution(personalization);
+  const danglingDistribution = buildDistribution(undefined);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const newPageRanks = new Map<string, number>();
+    let residual = 0;
+    const danglingMass = danglingCourses.reduce((sum, course) => sum + pageRanks.get(course.id)!, 0);
+
+    courses.forEach(course => {
+      let rank = (1 - DAMPING) * teleportDistribution.get(course.id)!;
+      rank += DAMPING * danglingMass * danglingDistribution.get(course.id)!;
+      nodes.get(course.id)!.dependents.forEach(dependentId => {
+        const share = edgeShares.get(dependentId)!.get(course.id)!;
+        rank += DAMPING * pageRanks.get(dependentId)! * share;
+      });
+      newPageRanks.set(course.id, rank);
+      residual += Math.abs(rank - pageRanks.get(course.id)!);
+    });
+
+    newPageRanks.forEach((rank, courseId) => pageRanks.set(courseId, rank));
+    if (residual < TOLERANCE) break;
+  }
+  return pageRanks;
+}
+
+/** Fastest of `runs` timings in milliseconds, with the last result */
+function time<T>(runs: number, task: () => T): { ms: number; result: T } {
+  let best = Infinity;
+  let result!: T;
+  for (let run = 0; run < runs; run++) {
+    const start = performance.now();
+    result = task();
+    best = Math.min(best, performance.now() - start);
+  }
+  return { ms: best, result };
+}
+
+function main(): void {
+  const sizes = process.argv.slice(2).map(Number).filter(size => Number.isInteger(size) && size > 0);
+  const random = createRandom(SEED);
+  let mismatches = 0;
+
+  console.log(`PageRank benchmark (seed ${SEED}, damping ${DAMPING}, tolerance ${TOLERANCE})\n`);
+  console.log(['Courses', 'Edges', 'Scenario', 'Map (ms)', 'CSR (ms)', 'Speedup', 'Identical'].join('\t'));
+
+  (sizes.length > 0 ? sizes : DEFAULT_SIZES).forEach(size => {
+    const { courses, prerequisites } = generateCurriculum(size, random);
+    const runs = size >= 100_000 ? 3 : 10;
+
+    SCENARIOS.forEach(scenario => {
+      const personalization = scenario.personalized
+        ? new Map(courses.slice(-Math.ceil(size / 100)).map(course => [course.id, 1]))
+        : undefined;
+      const calculator = new PageRankCalculator(DAMPING, MAX_ITERATIONS, TOLERANCE, {
+        weighted: scenario.weighted,
+        personalization
+      });
+
+      const reference = time(runs, () => referencePageRank(courses, prerequisites, scenario.weighted, personalization));
+      const csr = time(runs, () => calculator.calculatePageRank(courses, prerequisites));
+
+      // Scores must match bit for bit, and ranks must follow the same order
+      const expectedOrder = Array.from(reference.result.entries()).sort((a, b) => b[1] - a[1]);
+      const identical =
+        csr.result.length === expectedOrder.length &&
+        csr.result.every((result, index) =>
+          result.courseId === expectedOrder[index][0] &&
+          result.score === expectedOrder[index][1] &&
+          result.rank === index + 1
+        );
+      if (!identical) mismatches++;
+
+      console.log([
+        size,
+        prerequisites.length,
+        scenario.label,
+        reference.ms.toFixed(1),
+        csr.ms.toFixed(1),
+        `${(reference.ms / csr.ms).toFixed(1)}x`,
+        identical ? 'yes' : 'NO'
+      ].join('\t'));
+    });
+  });
+
+  if (mismatches > 0) {
+    console.error(`\n${mismatches} scenario(s) produced different results`);
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,226 @@
+// Command-line ranking of a prerequisite CSV, for scheduled jobs without a browser
+//
+// Usage: npm run rank -- <prerequisites.csv> [options]   (see --help)
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { AlgorithmId } from '../src/algorithms/RankingAlgorithm';
+import { DEFAULT_RANKING_SETTINGS, RANKING_ALGORITHMS, RankingAlgorithms, RankingSettings } from '../src/algorithms/registry';
+import { GraphAnalysis } from '../src/algorithms/GraphAnalysis';
+import { CycleDetector } from '../src/algorithms/CycleDetection';
+import { CSVParser, CSVParseResult } from '../src/utils/csvParser';
+import { ParseDiagnostic } from '../src/utils/csvFormat';
+import { RankingExport } from '../src/utils/rankingExport';
+
+type OutputFormat = 'table' | 'csv' | 'json' | 'markdown';
+
+const OUTPUT_FORMATS: OutputFormat[] = ['table', 'csv', 'json', 'markdown'];
+
+/** Process exit codes, so jobs can tell failures apart */
+const EXIT_USAGE = 1;
+const EXIT_PARSE_ERROR = 2;
+const EXIT_CYCLES = 3;
+
+const USAGE = `Usage: npm run rank -- <prerequisites.csv> [options]
+
+Options:
+  --catalog <file>       Course catalog CSV (id,name,description,credits)
+  --algorithm <id>       ${RANKING_ALGORITHMS.map(({ id }) => id).join(' | ')} (default: pagerank)
+  --damping <number>     PageRank damping factor between 0 and 1 (default: ${DEFAULT_RANKING_SETTINGS.dampingFactor})
+  --iterations <n>       Iteration limit for PageRank and HITS (default: 100)
+  --tolerance <number>   Convergence threshold for PageRank and HITS (default: 1e-6)
+  --weighted             Weight PageRank edges by strength and weight columns
+  --targets <ids>        Comma-separated target courses for personalized PageRank
+  --top <n>              Only output the top n courses
+  --format <format>      ${OUTPUT_FORMATS.join(' | ')} (default: table)
+  --output <file>        Write to a file instead of standard output
+  -h, --help             Show this help
+
+Exit codes: 0 success, ${EXIT_USAGE} invalid arguments or unreadable file, ` +
+  `${EXIT_PARSE_ERROR} CSV errors, ${EXIT_CYCLES} prerequisite cycles`;
+
+/** Invalid command-line arguments; reported with the usage text */
+class UsageError extends Error {}
+
+/** An input file that cannot be read */
+class InputError extends Error {}
+
+interface CommandOptions {
+  prerequisitesFile: string;
+  catalogFile?: string;
+  settings: RankingSettings;
+  topN?: number;
+  format: OutputFormat;
+  outputFile?: string;
+}
+
+function parseNumber(name: string, value: string | undefined, valid: (n: number) => boolean): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (value.trim() === '' || !valid(parsed)) throw new UsageError(`Invalid value for --${name}: ${value}`);
+  return parsed;
+}
+
+function parseOptions(args: string[]): CommandOptions | null {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      catalog: { type: 'string' },
+      algorithm: { type: 'string' },
+      damping: { type: 'string' },
+      iterations: { type: 'string' },
+      tolerance: { type: 'string' },
+      weighted: { type: 'boolean' },
+      targets: { type: 'string' },
+      top: { type: 'string' },
+      format: { type: 'string' },
+      output: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+
+  if (values.help) return null;
+  if (positionals.length !== 1) throw new UsageError('Expected exactly one prerequisites CSV file');
+
+  const algorithm = values.algorithm ?? DEFAULT_RANKING_SETTINGS.algorithm;
+  if (!RANKING_ALGORITHMS.some(({ id }) => id === algorithm)) {
+    throw new UsageError(`Unknown algorithm: ${algorithm}`);
+  }
+  const format = values.format ?? 'table';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) throw new UsageError(`Unknown format: ${format}`);
+
+  const isPositiveInteger = (n: number) => Number.isInteger(n) && n > 0;
+  return {
+    prerequisitesFile: positionals[0],
+    catalogFile: values.catalog,
+    settings: {
+      algorithm: algorithm as AlgorithmId,
+      dampingFactor: parseNumber('damping', values.damping, n => n > 0 && n < 1) ?? DEFAULT_RANKING_SETTINGS.dampingFactor,
+      weighted: values.weighted ?? false,
+      targetCourses: (values.targets ?? '').split(',').map(id => id.trim()).filter(id => id.length > 0),
+      maxIterations: parseNumber('iterations', values.iterations, isPositiveInteger),
+      tolerance: parseNumber('tolerance', values.tolerance, n => n > 0)
+    },
+    topN: parseNumber('top', values.top, isPositiveInteger),
+    format: format as OutputFormat,
+    outputFile: values.output
+  };
+}
+
+function readFile(path: string): string {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch (err) {
+    throw new InputError(`Cannot read ${path}: ${(err as Error).message}`);
+  }
+}
+
+/** Print diagnostics to standard error; returns whether any of them is an error */
+function reportDiagnostics(file: string, diagnostics: ParseDiagnostic[]): boolean {
+  diagnostics.forEach(({ severity, line, message }) => {
+    console.error(`${file}${line !== undefined ? `:${line}` : ''}: ${severity}: ${message}`);
+  });
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+}
+
+/** Fixed-width text table, numbers aligned right */
+function formatTable(header: string[], rows: (string | number)[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map(row => String(row[column]).length))
+  );
+  const isNumber = (value: string | number) => String(value).trim() !== '' && !isNaN(Number(value));
+  const numeric = header.map((_, column) => rows.every(row => isNumber(row[column])));
+  const formatRow = (row: (string | number)[]) => row
+    .map((value, column) => numeric[column]
+      ? String(value).padStart(widths[column])
+      : String(value).padEnd(widths[column]))
+    .join('  ')
+    .trimEnd();
+  return [formatRow(header), widths.map(width => '-'.repeat(width)).join('  '), ...rows.map(formatRow)].join('\n') + '\n';
+}
+
+function run(options: CommandOptions): number {
+  const { prerequisitesFile, catalogFile, settings, topN, format, outputFile } = options;
+
+  let data: CSVParseResult = CSVParser.parsePrerequisites(readFile(prerequisitesFile));
+  let parseFailed = reportDiagnostics(prerequisitesFile, data.diagnostics);
+  if (catalogFile) {
+    const catalog = CSVParser.parseCourses(readFile(catalogFile));
+    parseFailed = reportDiagnostics(catalogFile, catalog.diagnostics) || parseFailed;
+    const merged = CSVParser.mergeCatalog(catalog.courses, data);
+    if (merged.report.missingFromCatalog.length > 0) {
+      console.error(`${catalogFile}: warning: not in the catalog: ${merged.report.missingFromCatalog.join(', ')}`);
+    }
+    data = merged;
+  }
+  if (parseFailed) return EXIT_PARSE_ERROR;
+
+  const { courses, prerequisites } = data;
+  const unknownTargets = settings.targetCourses.filter(id => !courses.some(course => course.id === id));
+  if (unknownTargets.length > 0) throw new UsageError(`Unknown target course(s): ${unknownTargets.join(', ')}`);
+
+  const cycles = CycleDetector.findCycles(courses.map(course => course.id), prerequisites);
+  if (cycles.length > 0) {
+    cycles.forEach(cycle => console.error(`error: prerequisite cycle: ${cycle.path.join(' → ')}`));
+    return EXIT_CYCLES;
+  }
+
+  const algorithm = RankingAlgorithms.create(settings);
+  const { graph, convergence } = GraphAnalysis.analyze(algorithm, courses, prerequisites);
+  const ranked = topN !== undefined ? graph.nodes.slice(0, topN) : graph.nodes;
+  if (convergence && !convergence.converged) {
+    console.error(`warning: stopped at the iteration limit (residual ${convergence.residual.toExponential(2)})`);
+  }
+
+  let output: string;
+  if (format === 'table') {
+    output = formatTable(
+      ['Rank', 'Course', 'Name', algorithm.scoreLabel, 'Prereqs', 'Unlocks'],
+      ranked.map(node => [node.rank, node.id, node.name, algorithm.formatScore(node.score), node.outDegree, node.inDegree])
+    );
+  } else {
+    const report = RankingExport.build(
+      algorithm,
+      settings,
+      ranked,
+      { courses: courses.length, prerequisites: prerequisites.length },
+      convergence
+    );
+    output = RankingExport.format(report, format);
+  }
+
+  if (outputFile) {
+    writeFileSync(outputFile, output);
+    console.error(`Wrote ${ranked.length} courses to ${outputFile}`);
+  } else {
+    process.stdout.write(output);
+  }
+  return 0;
+}
+
+function main(): void {
+  try {
+    const options = parseOptions(process.argv.slice(2));
+    if (!options) {
+      console.log(USAGE);
+      return;
+    }
+    process.exitCode = run(options);
+  } catch (err) {
+    // parseArgs reports unknown flags and missing values as TypeErrors with a code
+    if (err instanceof UsageError || (err as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`error: ${(err as Error).message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    if (err instanceof InputError) {
+      console.error(`error: ${err.message}`);
+      process.exitCode = EXIT_USAGE;
+      return;
+    }
+    throw err;
+  }
+}
+
+main();
@@ -1,48 +1,238 @@
-import React, { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { CourseRanking } from './components/CourseRanking';
+import { StudyPlanView } from './components/StudyPlanView';
+import { EligibilityPanel } from './components/EligibilityPanel';
+import { CurriculumDiffView } from './components/CurriculumDiffView';
+import { CurriculumEditorPanel } from './components/CurriculumEditorPanel';
+import { WhatIfPanel } from './components/WhatIfPanel';
 import { FileUpload } from './components/FileUpload';
-import { CSVParser } from './utils/csvParser';
+import { ParseReport } from './components/ParseReport';
+import { CatalogReport } from './components/CatalogReport';
+import { DatasetPicker } from './components/DatasetPicker';
+import { CSVParser, CSVParseResult, CatalogMergeReport } from './utils/csvParser';
+import { ParseDiagnostic } from './utils/csvFormat';
+import { GraphImporter, IMPORT_EXTENSIONS, IMPORT_FORMAT_NAMES } from './utils/graphImport';
+import { DatasetStore, RankingViewSettings, SAMPLE_DATASET_ID, StoredDataset } from './utils/datasetStore';
 import { Course, Prerequisite } from './types/Course';
-import { BookOpen, Brain, TrendingUp } from 'lucide-react';
+import { CurriculumVersion } from './algorithms/CurriculumDiff';
+import { BookOpen, Brain, CalendarDays, ClipboardCheck, FlaskConical, GitCompare, LucideIcon, PencilRuler, TrendingUp } from 'lucide-react';
+
+const CATALOG_FORMAT_EXAMPLE = [
+  'id,name,description,credits',
+  'MATH101,Calculus I,Differential calculus,4',
+  'CS101,Programming I,"Variables, loops",3'
+];
+
+type AppTab = 'ranking' | 'eligibility' | 'plan' | 'compare' | 'whatif' | 'edit';
+
+const TABS: { id: AppTab; label: string; icon: LucideIcon }[] = [
+  { id: 'ranking', label: 'Ranking', icon: TrendingUp },
+  { id: 'eligibility', label: 'Eligibility', icon: ClipboardCheck },
+  { id: 'plan', label: 'Study Plan', icon: CalendarDays },
+  { id: 'compare', label: 'Compare Versions', icon: GitCompare },
+  { id: 'whatif', label: 'What-If', icon: FlaskConical },
+  { id: 'edit', label: 'Edit', icon: PencilRuler }
+];
+
+const fileBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || fileName;
 
 function App() {
-  const [courses, setCourses] = useState<Course[]>([]);
-  const [prerequisites, setPrerequisites] = useState<Prerequisite[]>([]);
+  // Reopen the dataset from the last visit, if it is still stored
+  const [restored] = useState(() => {
+    const id = DatasetStore.lastUsed();
+    const dataset = id ? DatasetStore.load(id) : null;
+    return dataset && id ? { id, dataset } : null;
+  });
+  const [prerequisiteData, setPrerequisiteData] = useState<CSVParseResult | null>(() =>
+    restored ? { courses: restored.dataset.courses, prerequisites: restored.dataset.prerequisites, diagnostics: [] } : null
+  );
+  const [catalog, setCatalog] = useState<Course[] | null>(restored?.dataset.catalog ?? null);
+  const [datasets, setDatasets] = useState(() => DatasetStore.list());
+  const [activeDatasetId, setActiveDatasetId] = useState<string | null>(restored?.id ?? null);
   const [error, setError] = useState<string>('');
-  const [hasData, setHasData] = useState(false);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [catalogDiagnostics, setCatalogDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [showCatalogReport, setShowCatalogReport] = useState(true);
+  const [activeTab, setActiveTab] = useState<AppTab>('ranking');
+
+  // Merge the optional catalog into the prerequisite edges
+  const { courses, prerequisites, catalogReport } = useMemo(() => {
+    let catalogReport: CatalogMergeReport | null = null;
+    if (!prerequisiteData) {
+      return { courses: [] as Course[], prerequisites: [] as Prerequisite[], catalogReport };
+    }
+    if (!catalog) {
+      return { ...prerequisiteData, catalogReport };
+    }
+    const merged = CSVParser.mergeCatalog(catalog, prerequisiteData);
+    catalogReport = merged.report;
+    return { ...merged, catalogReport };
+  }, [prerequisiteData, catalog]);
+
+  const hasData = prerequisiteData !== null;
 
-  const handleFileUpload = useCallback((content: string) => {
+  /**
+   * Store a dataset and make it the active one. Returns false when the
+   * browser refuses to store it; the data stays loaded for this session.
+   */
+  const persistDataset = useCallback((name: string, dataset: StoredDataset, id?: string) => {
     try {
-      const parseResult = CSVParser.parsePrerequisites(content);
-      setCourses(parseResult.courses);
-      setPrerequisites(parseResult.prerequisites);
-      setHasData(true);
-      setError('');
+      const summary = DatasetStore.save(name, dataset, id);
+      DatasetStore.setLastUsed(summary.id);
+      setDatasets(DatasetStore.list());
+      setActiveDatasetId(summary.id);
+      return true;
     } catch (err) {
-      setError('Failed to parse CSV file. Please check the format.');
-      console.error('CSV parsing error:', err);
+      setActiveDatasetId(null);
+      setError(`Could not save the dataset in this browser: ${err instanceof Error ? err.message : String(err)}`);
+      console.error('Dataset storage error:', err);
+      return false;
     }
   }, []);
 
+  const activeDatasetName = datasets.find(dataset => dataset.id === activeDatasetId)?.name;
+
+  // Keep the active dataset's catalog in step with what is loaded
+  const updateActiveCatalog = useCallback((nextCatalog: Course[] | null) => {
+    if (!activeDatasetId || !prerequisiteData || !activeDatasetName) return;
+    persistDataset(activeDatasetName, {
+      courses: prerequisiteData.courses,
+      prerequisites: prerequisiteData.prerequisites,
+      catalog: nextCatalog
+    }, activeDatasetId);
+  }, [activeDatasetId, activeDatasetName, prerequisiteData, persistDataset]);
+
+  // Edited courses already include the catalog, so it is folded into the dataset
+  const handleCurriculumEdit = useCallback((next: CurriculumVersion) => {
+    setPrerequisiteData({ courses: next.courses, prerequisites: next.prerequisites, diagnostics: [] });
+    setCatalog(null);
+    setCatalogDiagnostics([]);
+    if (activeDatasetId && activeDatasetName) {
+      persistDataset(activeDatasetName, { ...next, catalog: null }, activeDatasetId);
+    }
+  }, [activeDatasetId, activeDatasetName, persistDataset]);
+
+  const handleSettingsChange = useCallback((settings: RankingViewSettings) => {
+    if (activeDatasetId) DatasetStore.saveSettings(activeDatasetId, settings);
+  }, [activeDatasetId]);
+
+  const rankingSettings = useMemo(
+    () => (activeDatasetId ? DatasetStore.loadSettings(activeDatasetId) : null),
+    [activeDatasetId]
+  );
+
+  const handleFileUpload = useCallback((content: string, fileName: string) => {
+    const format = GraphImporter.detectFormat(content, fileName);
+    try {
+      const parseResult = GraphImporter.parse(content, fileName);
+      setDiagnostics(parseResult.diagnostics);
+      setError('');
+      // Keep the previous dataset if nothing in the file was usable
+      if (parseResult.prerequisites.length === 0) return;
+
+      setPrerequisiteData(parseResult);
+      setShowCatalogReport(true);
+      persistDataset(fileBaseName(fileName), {
+        courses: parseResult.courses,
+        prerequisites: parseResult.prerequisites,
+        catalog
+      });
+    } catch (err) {
+      setDiagnostics([]);
+      setError(`Failed to parse ${IMPORT_FORMAT_NAMES[format]} file. Please check the format.`);
+      console.error('Import error:', err);
+    }
+  }, [catalog, persistDataset]);
+
+  const handleCatalogUpload = useCallback((content: string) => {
+    try {
+      const parseResult = CSVParser.parseCourses(content);
+      setCatalogDiagnostics(parseResult.diagnostics);
+      setError('');
+      if (parseResult.courses.length === 0) {
+        setError('The catalog file contains no usable courses.');
+        return;
+      }
+
+      setCatalog(parseResult.courses);
+      setShowCatalogReport(true);
+      updateActiveCatalog(parseResult.courses);
+    } catch (err) {
+      setCatalogDiagnostics([]);
+      setError('Failed to parse catalog file. Please check the format.');
+      console.error('Catalog parsing error:', err);
+    }
+  }, [updateActiveCatalog]);
+
   const handleError = useCallback((errorMessage: string) => {
     setError(errorMessage);
   }, []);
 
-  const loadSampleData = useCallback(() => {
-    const sampleData = CSVParser.generateSampleData();
-    setCourses(sampleData.courses);
-    setPrerequisites(sampleData.prerequisites);
-    setHasData(true);
+  // Saved datasets are kept; only the current session is reset
+  const clearData = useCallback(() => {
+    setPrerequisiteData(null);
+    setCatalog(null);
     setError('');
+    setDiagnostics([]);
+    setCatalogDiagnostics([]);
+    setActiveDatasetId(null);
+    DatasetStore.setLastUsed(null);
   }, []);
 
-  const clearData = useCallback(() => {
-    setCourses([]);
-    setPrerequisites([]);
-    setHasData(false);
+  const removeCatalog = useCallback(() => {
+    setCatalog(null);
+    setCatalogDiagnostics([]);
+    updateActiveCatalog(null);
+  }, [updateActiveCatalog]);
+
+  const selectDataset = useCallback((id: string) => {
+    const dataset = DatasetStore.load(id);
+    if (!dataset) {
+      setError('This dataset could not be read from browser storage and was removed.');
+      DatasetStore.remove(id);
+      setDatasets(DatasetStore.list());
+      return;
+    }
+    setPrerequisiteData({ courses: dataset.courses, prerequisites: dataset.prerequisites, diagnostics: [] });
+    setCatalog(dataset.catalog);
+    setShowCatalogReport(true);
     setError('');
+    setDiagnostics([]);
+    setCatalogDiagnostics([]);
+    setActiveDatasetId(id);
+    DatasetStore.setLastUsed(id);
   }, []);
 
+  // Reopen the stored sample, with any edits and its ranking settings, before generating a new one
+  const loadSampleData = useCallback(() => {
+    if (DatasetStore.load(SAMPLE_DATASET_ID)) {
+      selectDataset(SAMPLE_DATASET_ID);
+      return;
+    }
+    const sample = CSVParser.generateSampleData();
+    setPrerequisiteData(sample);
+    setCatalog(null);
+    setError('');
+    setDiagnostics([]);
+    setCatalogDiagnostics([]);
+    persistDataset('Sample Data', { ...sample, catalog: null }, SAMPLE_DATASET_ID);
+  }, [persistDataset, selectDataset]);
+
+  const renameDataset = useCallback((id: string, name: string) => {
+    try {
+      DatasetStore.rename(id, name);
+      setDatasets(DatasetStore.list());
+    } catch (err) {
+      setError(`Could not rename the dataset: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }, []);
+
+  const deleteDataset = useCallback((id: string) => {
+    DatasetStore.remove(id);
+    setDatasets(DatasetStore.list());
+    if (id === activeDatasetId) clearData();
+  }, [activeDatasetId, clearData]);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50">
       {/* Header */}
@@ -75,6 +265,26 @@ function App() {
           </div>
         )}
 
+        {diagnostics.length > 0 && (
+          <div className="mb-6">
+            <ParseReport
+              title="Prerequisite file import report"
+              diagnostics={diagnostics}
+              onDismiss={() => setDiagnostics([])}
+            />
+          </div>
+        )}
+
+        {catalogDiagnostics.length > 0 && (
+          <div className="mb-6">
+            <ParseReport
+              title="Course catalog import report"
+              diagnostics={catalogDiagnostics}
+              onDismiss={() => setCatalogDiagnostics([])}
+            />
+          </div>
+        )}
+
         {!hasData ? (
           <div className="space-y-8">
             {/* Hero Section */}
@@ -98,17 +308,46 @@ function App() {
                   Try Sample Data
                 </button>
                 <span className="text-gray-400">or</span>
-                <span className="text-gray-600 font-medium">Upload your own CSV file below</span>
+                <span className="text-gray-600 font-medium">Upload your own files below</span>
+                {datasets.length > 0 && (
+                  <>
+                    <span className="text-gray-400">or</span>
+                    <DatasetPicker
+                      datasets={datasets}
+                      activeId={activeDatasetId}
+                      onSelect={selectDataset}
+                      onRename={renameDataset}
+                      onDelete={deleteDataset}
+                    />
+                  </>
+                )}
               </div>
             </div>
 
             {/* File Upload */}
-            <div className="max-w-2xl mx-auto">
+            <div className="grid md:grid-cols-2 gap-6 max-w-5xl mx-auto">
               <FileUpload
                 onFileUpload={handleFileUpload}
                 onError={handleError}
+                accept={IMPORT_EXTENSIONS}
+                formatHint="CSV, JSON, GraphML or Graphviz DOT"
                 className="bg-white/50 backdrop-blur-sm border-white/60"
               />
+              <div className="space-y-2">
+                <FileUpload
+                  onFileUpload={handleCatalogUpload}
+                  onError={handleError}
+                  title="Upload Course Catalog (optional)"
+                  formatExample={CATALOG_FORMAT_EXAMPLE}
+                  className="bg-white/50 backdrop-blur-sm border-white/60"
+                />
+                {catalog && (
+                  <p className="text-sm text-gray-600 text-center">
+                    Catalog loaded: <span className="font-semibold text-gray-900">{catalog.length}</span> courses.
+                    Upload the prerequisite file to start the analysis.
+                  </p>
+                )}
+              </div>
             </div>
 
             {/* Features */}
@@ -153,12 +392,34 @@ function App() {
             <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
               <div className="flex items-center justify-between">
                 <div className="flex items-center space-x-4">
+                  <DatasetPicker
+                    datasets={datasets}
+                    activeId={activeDatasetId}
+                    onSelect={selectDataset}
+                    onRename={renameDataset}
+                    onDelete={deleteDataset}
+                  />
                   <div className="text-sm text-gray-600">
                     <span className="font-semibold text-gray-900">{courses.length}</span> courses • 
                     <span className="font-semibold text-gray-900 ml-1">{prerequisites.length}</span> prerequisites
                   </div>
                 </div>
                 <div className="flex items-center space-x-3">
+                  {catalog ? (
+                    <button
+                      onClick={removeCatalog}
+                      className="px-4 py-2 text-gray-600 hover:bg-gray-50 rounded-lg transition-colors duration-200 font-medium"
+                    >
+                      Remove Catalog
+                    </button>
+                  ) : (
+                    <FileUpload
+                      onFileUpload={handleCatalogUpload}
+                      onError={handleError}
+                      title="Add Catalog"
+                      compact
+                    />
+                  )}
                   <button
                     onClick={loadSampleData}
                     className="px-4 py-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors duration-200 font-medium"
@@ -175,11 +436,56 @@ function App() {
               </div>
             </div>
 
-            {/* Course Ranking Component */}
-            <CourseRanking 
-              courses={courses} 
-              prerequisites={prerequisites} 
-            />
+            {catalog && catalogReport && showCatalogReport && (
+              <CatalogReport
+                report={catalogReport}
+                catalogSize={catalog.length}
+                onDismiss={() => setShowCatalogReport(false)}
+              />
+            )}
+
+            {/* Tabs */}
+            <div className="flex space-x-1 bg-white/60 backdrop-blur-sm rounded-xl p-1 border border-white/50 w-fit">
+              {TABS.map(({ id, label, icon: Icon }) => (
+                <button
+                  key={id}
+                  onClick={() => setActiveTab(id)}
+                  className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium transition-colors duration-200 ${
+                    activeTab === id ? 'bg-blue-600 text-white' : 'text-gray-600 hover:bg-white/80'
+                  }`}
+                >
+                  <Icon className="w-4 h-4 mr-2" />
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {/* Tabs stay mounted so their settings survive switching */}
+            <div className={activeTab === 'ranking' ? '' : 'hidden'}>
+              {/* Remount per dataset so its saved settings are restored */}
+              <CourseRanking 
+                key={activeDatasetId ?? 'unsaved'}
+                courses={courses} 
+                prerequisites={prerequisites} 
+                initialSettings={rankingSettings}
+                onSettingsChange={handleSettingsChange}
+              />
+            </div>
+            <div className={activeTab === 'eligibility' ? '' : 'hidden'}>
+              <EligibilityPanel courses={courses} prerequisites={prerequisites} />
+            </div>
+            <div className={activeTab === 'plan' ? '' : 'hidden'}>
+              <StudyPlanView courses={courses} prerequisites={prerequisites} />
+            </div>
+            <div className={activeTab === 'compare' ? '' : 'hidden'}>
+              <CurriculumDiffView courses={courses} prerequisites={prerequisites} />
+            </div>
+            <div className={activeTab === 'whatif' ? '' : 'hidden'}>
+              <WhatIfPanel courses={courses} prerequisites={prerequisites} />
+            </div>
+            <div className={activeTab === 'edit' ? '' : 'hidden'}>
+              <CurriculumEditorPanel courses={courses} prerequisites={prerequisites} onChange={handleCurriculumEdit} />
+            </div>
           </div>
         )}
       </main>
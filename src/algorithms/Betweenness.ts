@@ -0,0 +1,73 @@
+// Betweenness centrality: courses that sit on many prerequisite chains
+
+import { Course, Prerequisite, RankingRun } from '../types/Course';
+import { AlgorithmId, RankingAlgorithm, RankingScores } from './RankingAlgorithm';
+
+export class BetweennessCalculator implements RankingAlgorithm {
+  readonly id: AlgorithmId = 'betweenness';
+  readonly name = 'Betweenness Centrality';
+  readonly scoreLabel = 'Betweenness';
+  readonly description =
+    'Counts how often a course lies on the shortest prerequisite chain between two other ' +
+    'courses. High scores mark bottleneck courses: delaying or dropping them blocks many ' +
+    'paths through the curriculum.';
+
+  /**
+   * Brandes' algorithm on the prerequisite -> course graph, normalized by the
+   * number of ordered pairs of other courses
+   */
+  rank(courses: Course[], prerequisites: Prerequisite[]): RankingRun {
+    const dependents = RankingScores.dependentsIndex(courses, prerequisites);
+    const centrality = new Map(courses.map(course => [course.id, 0]));
+
+    courses.forEach(({ id: source }) => {
+      const stack: string[] = [];
+      const predecessors = new Map<string, string[]>();
+      const pathCounts = new Map<string, number>([[source, 1]]);
+      const distances = new Map<string, number>([[source, 0]]);
+      const queue: string[] = [source];
+
+      // Breadth-first search counting shortest paths
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        stack.push(current);
+        dependents.get(current)!.forEach(next => {
+          if (!distances.has(next)) {
+            distances.set(next, distances.get(current)! + 1);
+            queue.push(next);
+          }
+          if (distances.get(next) === distances.get(current)! + 1) {
+            pathCounts.set(next, (pathCounts.get(next) ?? 0) + pathCounts.get(current)!);
+            if (!predecessors.has(next)) predecessors.set(next, []);
+            predecessors.get(next)!.push(current);
+          }
+        });
+      }
+
+      // Accumulate dependencies in reverse order of distance
+      const dependency = new Map<string, number>();
+      while (stack.length > 0) {
+        const node = stack.pop()!;
+        (predecessors.get(node) ?? []).forEach(predecessor => {
+          const contribution = (pathCounts.get(predecessor)! / pathCounts.get(node)!) * (1 + (dependency.get(node) ?? 0));
+          dependency.set(predecessor, (dependency.get(predecessor) ?? 0) + contribution);
+        });
+        if (node !== source) {
+          centrality.set(node, centrality.get(node)! + (dependency.get(node) ?? 0));
+        }
+      }
+    });
+
+    const N = courses.length;
+    const pairCount = (N - 1) * (N - 2);
+    if (pairCount > 0) {
+      centrality.forEach((value, id) => centrality.set(id, value / pairCount));
+    }
+
+    return { results: RankingScores.rank(courses, centrality) };
+  }
+
+  formatScore(score: number): string {
+    return score.toFixed(4);
+  }
+}
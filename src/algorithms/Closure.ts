@@ -0,0 +1,70 @@
+// Transitive prerequisite and dependent closures of a single course
+
+import { Prerequisite } from '../types/Course';
+import { CycleDetector } from './CycleDetection';
+
+export interface CourseClosure {
+  courseId: string;
+  /** Every course needed before this one, in an order they can be taken */
+  ancestors: string[];
+  /** Every course this one leads to, in an order they can be taken */
+  descendants: string[];
+  /** Whether the ancestors include one-of alternatives, of which only one option is needed */
+  hasAlternatives: boolean;
+}
+
+export class PrerequisiteClosure {
+  /**
+   * Collect the transitive prerequisites and dependents of a course.
+   * Corequisites count as requirements; both lists are ordered by prerequisite
+   * depth, with ties kept in the order of `courseIds`.
+   */
+  static compute(courseIds: string[], prerequisites: Prerequisite[], courseId: string): CourseClosure {
+    const known = new Set(courseIds);
+    const edges = prerequisites.filter(p => known.has(p.prerequisite) && known.has(p.course));
+
+    const prerequisitesOf = new Map<string, string[]>();
+    const dependentsOf = new Map<string, string[]>();
+    courseIds.forEach(id => {
+      prerequisitesOf.set(id, []);
+      dependentsOf.set(id, []);
+    });
+    edges.forEach(({ prerequisite, course }) => {
+      prerequisitesOf.get(course)!.push(prerequisite);
+      dependentsOf.get(prerequisite)!.push(course);
+    });
+
+    const ancestors = PrerequisiteClosure.reach(courseId, prerequisitesOf);
+    const descendants = PrerequisiteClosure.reach(courseId, dependentsOf);
+
+    const depths = CycleDetector.computeDepths(courseIds, edges);
+    const position = new Map(courseIds.map((id, index) => [id, index]));
+    const byDepth = (a: string, b: string) =>
+      depths.get(a)! - depths.get(b)! || position.get(a)! - position.get(b)!;
+
+    const requiring = new Set([...ancestors, courseId]);
+    const hasAlternatives = edges.some(edge => edge.group !== undefined && requiring.has(edge.course));
+
+    return {
+      courseId,
+      ancestors: Array.from(ancestors).sort(byDepth),
+      descendants: Array.from(descendants).sort(byDepth),
+      hasAlternatives
+    };
+  }
+
+  /**
+   * Courses reachable from `start` through `neighbors`, excluding `start` itself
+   */
+  private static reach(start: string, neighbors: Map<string, string[]>): Set<string> {
+    const reached = new Set<string>();
+    const queue = [...(neighbors.get(start) ?? [])];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      if (reached.has(current) || current === start) continue;
+      reached.add(current);
+      neighbors.get(current)!.forEach(next => queue.push(next));
+    }
+    return reached;
+  }
+}
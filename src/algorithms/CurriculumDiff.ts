@@ -0,0 +1,151 @@
+// Differences between two versions of a curriculum and the resulting rank movement
+
+import { Course, CourseNode, GraphData, Prerequisite } from '../types/Course';
+import { GraphAnalysis } from './GraphAnalysis';
+import { PageRankCalculator } from './PageRank';
+import { RankingAlgorithm } from './RankingAlgorithm';
+
+export interface CurriculumVersion {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+export type CourseField = 'name' | 'description' | 'credits';
+
+export interface ChangedCourse {
+  courseId: string;
+  fields: CourseField[];
+}
+
+export interface ChangedEdge {
+  before: Prerequisite;
+  after: Prerequisite;
+}
+
+export interface CourseMovement {
+  courseId: string;
+  previousRank?: number;
+  currentRank?: number;
+  previousScore?: number;
+  currentScore?: number;
+  /** Places gained (positive) or lost; undefined for added and removed courses */
+  rankChange?: number;
+}
+
+export interface CurriculumDiffResult {
+  addedCourses: string[];
+  removedCourses: string[];
+  changedCourses: ChangedCourse[];
+  addedEdges: Prerequisite[];
+  removedEdges: Prerequisite[];
+  /** Edges between the same courses whose type, group or weight changed */
+  changedEdges: ChangedEdge[];
+  /** Every course of either version: current courses by rank, then removed ones */
+  movements: CourseMovement[];
+  previous: GraphData;
+  current: GraphData;
+}
+
+/** Courses and edges to mark when drawing a diff, with edges keyed as "A->B" */
+export interface DiffHighlight {
+  addedCourses: Set<string>;
+  removedCourses: Set<string>;
+  addedEdges: Set<string>;
+  removedEdges: Set<string>;
+}
+
+const edgeKey = (edge: Prerequisite) => `${edge.prerequisite}->${edge.course}`;
+
+const COURSE_FIELDS: CourseField[] = ['name', 'description', 'credits'];
+
+export class CurriculumDiff {
+  /**
+   * Compare two versions of a curriculum. Edges are matched by their
+   * prerequisite and course; both versions are ranked with the same algorithm
+   * (PageRank with default settings unless given) to report rank movement.
+   */
+  static compare(
+    previous: CurriculumVersion,
+    current: CurriculumVersion,
+    algorithm: RankingAlgorithm = new PageRankCalculator()
+  ): CurriculumDiffResult {
+    const previousCourses = new Map(previous.courses.map(course => [course.id, course]));
+    const currentCourses = new Map(current.courses.map(course => [course.id, course]));
+
+    const changedCourses: ChangedCourse[] = [];
+    current.courses.forEach(course => {
+      const before = previousCourses.get(course.id);
+      if (!before) return;
+      const fields = COURSE_FIELDS.filter(field => before[field] !== course[field]);
+      if (fields.length > 0) changedCourses.push({ courseId: course.id, fields });
+    });
+
+    const previousEdges = new Map(previous.prerequisites.map(edge => [edgeKey(edge), edge]));
+    const currentEdges = new Map(current.prerequisites.map(edge => [edgeKey(edge), edge]));
+    const changedEdges: ChangedEdge[] = [];
+    currentEdges.forEach((after, key) => {
+      const before = previousEdges.get(key);
+      if (before && !CurriculumDiff.sameRequirement(before, after)) changedEdges.push({ before, after });
+    });
+
+    const previousGraph = GraphAnalysis.analyze(algorithm, previous.courses, previous.prerequisites).graph;
+    const currentGraph = GraphAnalysis.analyze(algorithm, current.courses, current.prerequisites).graph;
+    const previousNodes = new Map(previousGraph.nodes.map(node => [node.id, node]));
+    const currentIds = new Set(currentGraph.nodes.map(node => node.id));
+    const movement = (currentNode: CourseNode | undefined, previousNode: CourseNode | undefined): CourseMovement => ({
+      courseId: (currentNode ?? previousNode)!.id,
+      previousRank: previousNode?.rank,
+      currentRank: currentNode?.rank,
+      previousScore: previousNode?.score,
+      currentScore: currentNode?.score,
+      rankChange: currentNode && previousNode ? previousNode.rank - currentNode.rank : undefined
+    });
+
+    return {
+      addedCourses: current.courses.filter(course => !previousCourses.has(course.id)).map(course => course.id),
+      removedCourses: previous.courses.filter(course => !currentCourses.has(course.id)).map(course => course.id),
+      changedCourses,
+      addedEdges: Array.from(currentEdges.values()).filter(edge => !previousEdges.has(edgeKey(edge))),
+      removedEdges: Array.from(previousEdges.values()).filter(edge => !currentEdges.has(edgeKey(edge))),
+      changedEdges,
+      movements: [
+        ...currentGraph.nodes.map(node => movement(node, previousNodes.get(node.id))),
+        ...previousGraph.nodes.filter(node => !currentIds.has(node.id)).map(node => movement(undefined, node))
+      ],
+      previous: previousGraph,
+      current: currentGraph
+    };
+  }
+
+  /**
+   * The current graph plus the courses and edges that were removed, so the
+   * whole change can be drawn at once
+   */
+  static mergedGraph(diff: CurriculumDiffResult): GraphData {
+    const currentIds = new Set(diff.current.nodes.map(node => node.id));
+    const removedEdges = new Set(diff.removedEdges.map(edgeKey));
+    return {
+      nodes: [...diff.current.nodes, ...diff.previous.nodes.filter(node => !currentIds.has(node.id))],
+      edges: [
+        ...diff.current.edges,
+        ...diff.previous.edges.filter(edge => removedEdges.has(`${edge.source}->${edge.target}`))
+      ]
+    };
+  }
+
+  static highlight(diff: CurriculumDiffResult): DiffHighlight {
+    return {
+      addedCourses: new Set(diff.addedCourses),
+      removedCourses: new Set(diff.removedCourses),
+      addedEdges: new Set(diff.addedEdges.map(edgeKey)),
+      removedEdges: new Set(diff.removedEdges.map(edgeKey))
+    };
+  }
+
+  private static sameRequirement(a: Prerequisite, b: Prerequisite): boolean {
+    return (a.kind ?? 'prerequisite') === (b.kind ?? 'prerequisite') &&
+      a.group === b.group &&
+      a.strength === b.strength &&
+      a.weight === b.weight;
+  }
+}
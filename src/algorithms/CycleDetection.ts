@@ -0,0 +1,197 @@
+// Strongly connected component detection for circular prerequisites
+
+import { Prerequisite } from '../types/Course';
+import { RequirementGroups } from './Requirements';
+
+export interface PrerequisiteCycle {
+  /** Courses in the strongly connected component */
+  courses: string[];
+  /** Prerequisite edges between members of the component */
+  edges: Prerequisite[];
+  /** One closed walk through the component, starting and ending at the same course */
+  path: string[];
+}
+
+export class CycleDetector {
+  /**
+   * Find strongly connected components with an iterative Tarjan's algorithm.
+   * Edges point from prerequisite to course; components are returned in
+   * reverse topological order (courses that unlock nothing come first).
+   */
+  static findStronglyConnectedComponents(courseIds: string[], prerequisites: Prerequisite[]): string[][] {
+    const successors = CycleDetector.buildSuccessors(courseIds, prerequisites);
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const onStack = new Set<string>();
+    const stack: string[] = [];
+    const components: string[][] = [];
+    let nextIndex = 0;
+
+    courseIds.forEach(root => {
+      if (index.has(root)) return;
+
+      // Each frame holds a node and the position of the next successor to visit
+      const callStack: { id: string; next: number }[] = [{ id: root, next: 0 }];
+      index.set(root, nextIndex);
+      lowLink.set(root, nextIndex);
+      nextIndex++;
+      stack.push(root);
+      onStack.add(root);
+
+      while (callStack.length > 0) {
+        const frame = callStack[callStack.length - 1];
+        const neighbors = successors.get(frame.id)!;
+
+        if (frame.next < neighbors.length) {
+          const neighbor = neighbors[frame.next++];
+          if (!index.has(neighbor)) {
+            index.set(neighbor, nextIndex);
+            lowLink.set(neighbor, nextIndex);
+            nextIndex++;
+            stack.push(neighbor);
+            onStack.add(neighbor);
+            callStack.push({ id: neighbor, next: 0 });
+          } else if (onStack.has(neighbor)) {
+            lowLink.set(frame.id, Math.min(lowLink.get(frame.id)!, index.get(neighbor)!));
+          }
+          continue;
+        }
+
+        callStack.pop();
+        if (callStack.length > 0) {
+          const parent = callStack[callStack.length - 1].id;
+          lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.id)!));
+        }
+
+        if (lowLink.get(frame.id) === index.get(frame.id)) {
+          const component: string[] = [];
+          let member: string;
+          do {
+            member = stack.pop()!;
+            onStack.delete(member);
+            component.push(member);
+          } while (member !== frame.id);
+          components.push(component);
+        }
+      }
+    });
+
+    return components;
+  }
+
+  /**
+   * Find every circular prerequisite chain: components with more than one
+   * course, plus courses that list themselves as a prerequisite.
+   * Corequisites are ignored since they do not impose an order.
+   */
+  static findCycles(courseIds: string[], prerequisites: Prerequisite[]): PrerequisiteCycle[] {
+    const known = new Set(courseIds);
+    const edges = RequirementGroups.orderingEdges(prerequisites)
+      .filter(p => known.has(p.prerequisite) && known.has(p.course));
+    const components = CycleDetector.findStronglyConnectedComponents(courseIds, edges);
+    const cycles: PrerequisiteCycle[] = [];
+
+    // Bucket edges by component in one pass rather than filtering per component
+    const componentOf = new Map<string, number>();
+    components.forEach((component, index) => component.forEach(id => componentOf.set(id, index)));
+    const edgesByComponent = components.map((): Prerequisite[] => []);
+    edges.forEach(edge => {
+      const index = componentOf.get(edge.prerequisite)!;
+      if (index === componentOf.get(edge.course)) edgesByComponent[index].push(edge);
+    });
+
+    components.forEach((component, index) => {
+      const componentEdges = edgesByComponent[index];
+      const isCycle = component.length > 1 || componentEdges.length > 0;
+      if (!isCycle) return;
+
+      cycles.push({
+        courses: component,
+        edges: componentEdges,
+        path: CycleDetector.findClosedWalk(component[component.length - 1], componentEdges)
+      });
+    });
+
+    return cycles;
+  }
+
+  /**
+   * Assign each course a depth: 0 for courses without prerequisites, otherwise
+   * one more than its deepest prerequisite. Courses in the same cycle share a
+   * depth, and corequisites do not push a course deeper.
+   */
+  static computeDepths(courseIds: string[], prerequisites: Prerequisite[]): Map<string, number> {
+    const known = new Set(courseIds);
+    const edges = RequirementGroups.orderingEdges(prerequisites)
+      .filter(p => known.has(p.prerequisite) && known.has(p.course));
+    const components = CycleDetector.findStronglyConnectedComponents(courseIds, edges);
+    const componentOf = new Map<string, number>();
+    components.forEach((members, componentIndex) => {
+      members.forEach(id => componentOf.set(id, componentIndex));
+    });
+
+    const prerequisitesOf = new Map<string, string[]>();
+    courseIds.forEach(id => prerequisitesOf.set(id, []));
+    edges.forEach(({ prerequisite, course }) => prerequisitesOf.get(course)!.push(prerequisite));
+
+    // Walk components in topological order so prerequisites are always resolved first
+    const depths = new Map<string, number>();
+    for (let i = components.length - 1; i >= 0; i--) {
+      let depth = 0;
+      components[i].forEach(id => {
+        prerequisitesOf.get(id)!.forEach(prerequisite => {
+          if (componentOf.get(prerequisite) !== i) {
+            depth = Math.max(depth, depths.get(prerequisite)! + 1);
+          }
+        });
+      });
+      components[i].forEach(id => depths.set(id, depth));
+    }
+
+    return depths;
+  }
+
+  /**
+   * Shortest closed walk from `start` back to itself using only the given edges
+   */
+  private static findClosedWalk(start: string, edges: Prerequisite[]): string[] {
+    const successors = new Map<string, string[]>();
+    edges.forEach(({ prerequisite, course }) => {
+      if (!successors.has(prerequisite)) successors.set(prerequisite, []);
+      successors.get(prerequisite)!.push(course);
+    });
+
+    const parent = new Map<string, string>();
+    const queue: string[] = [start];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of successors.get(current) ?? []) {
+        if (next === start) {
+          const path = [start];
+          for (let node = current; node !== start; node = parent.get(node)!) {
+            path.splice(1, 0, node);
+          }
+          path.push(start);
+          return path;
+        }
+        if (!parent.has(next)) {
+          parent.set(next, current);
+          queue.push(next);
+        }
+      }
+    }
+
+    return [start];
+  }
+
+  private static buildSuccessors(courseIds: string[], prerequisites: Prerequisite[]): Map<string, string[]> {
+    const successors = new Map<string, string[]>();
+    courseIds.forEach(id => successors.set(id, []));
+    prerequisites.forEach(({ prerequisite, course }) => {
+      if (successors.has(prerequisite) && successors.has(course)) {
+        successors.get(prerequisite)!.push(course);
+      }
+    });
+    return successors;
+  }
+}
@@ -0,0 +1,124 @@
+// Courses a student can take next, given the courses on their transcript
+
+import { Course, Prerequisite, TranscriptEntry } from '../types/Course';
+import { GraphAnalysis } from './GraphAnalysis';
+import { RequirementGroups } from './Requirements';
+
+export interface CourseEligibility {
+  courseId: string;
+  /** Unmet prerequisites; each entry lists the courses of which any one would do */
+  missing: string[][];
+  /** Corequisites not yet passed, to be taken in the same term */
+  corequisites: string[];
+  /** Number of courses that list this one as a prerequisite */
+  dependents: number;
+}
+
+export interface OrderIssue {
+  /** The requirement, as alternatives of which any one would do */
+  options: string[];
+  /** `missing`: none of the options is on the transcript; `later`: passed only after the course */
+  problem: 'missing' | 'later';
+}
+
+export interface OutOfOrderCourse {
+  courseId: string;
+  term?: string;
+  issues: OrderIssue[];
+}
+
+export interface EligibilityReport {
+  /** Transcript courses found in the curriculum */
+  completed: string[];
+  /** Transcript course IDs that are not in the curriculum */
+  unknown: string[];
+  /** Courses with prerequisites, all of which are met */
+  unlocked: CourseEligibility[];
+  /** Courses without any prerequisites that are not completed yet */
+  entryLevel: string[];
+  /** Courses with exactly one unmet requirement */
+  oneAway: CourseEligibility[];
+  /** Completed courses whose prerequisites are missing or were passed afterwards */
+  outOfOrder: OutOfOrderCourse[];
+}
+
+const compareTerms = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true });
+
+export class EligibilityChecker {
+  /**
+   * Check every course against a transcript. A prerequisite requirement is met
+   * by passing its course (or any option of a one-of group); corequisites do
+   * not block a course but are listed so they can be taken together.
+   * Unlocked and one-away courses are ordered by how many courses they lead to.
+   */
+  static check(courses: Course[], prerequisites: Prerequisite[], transcript: TranscriptEntry[]): EligibilityReport {
+    const { nodes, prerequisites: knownEdges } = GraphAnalysis.buildAdjacency(courses, prerequisites);
+    const requirements = RequirementGroups.build(knownEdges);
+    const termOf = new Map<string, string | undefined>();
+    const unknown: string[] = [];
+    transcript.forEach(({ courseId, term }) => {
+      if (nodes.has(courseId)) termOf.set(courseId, term);
+      else unknown.push(courseId);
+    });
+
+    const unlocked: CourseEligibility[] = [];
+    const oneAway: CourseEligibility[] = [];
+    const entryLevel: string[] = [];
+    const outOfOrder: OutOfOrderCourse[] = [];
+
+    courses.forEach(({ id }) => {
+      const groups = requirements.get(id) ?? [];
+
+      if (termOf.has(id)) {
+        const term = termOf.get(id);
+        const issues: OrderIssue[] = [];
+        groups.forEach(group => {
+          const needed = group.mode === 'one-of' ? [group.options] : group.options.map(option => [option]);
+          needed.forEach(options => {
+            const passed = options.filter(option => termOf.has(option));
+            if (passed.length === 0) {
+              issues.push({ options, problem: 'missing' });
+              return;
+            }
+            // Without terms on both sides the order cannot be checked
+            const inOrder = passed.some(option => {
+              const optionTerm = termOf.get(option);
+              if (term === undefined || optionTerm === undefined) return true;
+              const order = compareTerms(optionTerm, term);
+              return group.kind === 'corequisite' ? order <= 0 : order < 0;
+            });
+            if (!inOrder) issues.push({ options, problem: 'later' });
+          });
+        });
+        if (issues.length > 0) outOfOrder.push({ courseId: id, term, issues });
+        return;
+      }
+
+      const missing: string[][] = [];
+      const corequisites: string[] = [];
+      groups.forEach(group => {
+        const unmet = group.mode === 'one-of'
+          ? (group.options.some(option => termOf.has(option)) ? [] : [group.options])
+          : group.options.filter(option => !termOf.has(option)).map(option => [option]);
+        if (group.kind === 'corequisite') unmet.forEach(options => corequisites.push(...options));
+        else missing.push(...unmet);
+      });
+
+      const hasPrerequisites = groups.some(group => group.kind === 'prerequisite');
+      const eligibility = { courseId: id, missing, corequisites, dependents: nodes.get(id)!.dependents.length };
+      if (!hasPrerequisites) entryLevel.push(id);
+      else if (missing.length === 0) unlocked.push(eligibility);
+      else if (missing.length === 1) oneAway.push(eligibility);
+    });
+
+    const byDependents = (a: CourseEligibility, b: CourseEligibility) => b.dependents - a.dependents;
+    return {
+      completed: Array.from(termOf.keys()),
+      unknown,
+      unlocked: unlocked.sort(byDependents),
+      entryLevel,
+      oneAway: oneAway.sort(byDependents),
+      outOfOrder
+    };
+  }
+}
@@ -0,0 +1,118 @@
+// Force-directed layout for exploring the prerequisite graph without a hierarchy
+
+import { Prerequisite } from '../types/Course';
+import { GraphLayout, LayoutOptions, Point } from '../types/Layout';
+
+export interface ForceLayoutOptions extends LayoutOptions {
+  /** Simulation steps; defaults to fewer steps for larger graphs */
+  iterations?: number;
+  /** Called after each step with the fraction of steps done */
+  onProgress?: (fraction: number) => void;
+}
+
+// Pull toward the origin so disconnected courses do not drift away
+const GRAVITY = 0.02;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export class ForceLayout {
+  /**
+   * Fruchterman-Reingold layout: every pair of courses repels, linked courses
+   * attract, and the step size cools linearly. Courses start on a spiral
+   * rather than at random so the same data always produces the same picture.
+   */
+  static compute(courseIds: string[], prerequisites: Prerequisite[], options: ForceLayoutOptions = {}): GraphLayout {
+    const idealLength = options.nodeSpacing ?? 110;
+    const padding = options.padding ?? 80;
+    const n = courseIds.length;
+    // Repulsion is quadratic in the number of courses, so large graphs get fewer steps
+    const iterations = options.iterations ?? Math.min(Math.max(Math.floor(5e7 / Math.max(n * n, 1)), 20), 300);
+
+    const indexOf = new Map(courseIds.map((id, index) => [id, index]));
+    const links: [number, number][] = [];
+    const seen = new Set<string>();
+    prerequisites.forEach(({ prerequisite, course }) => {
+      const a = indexOf.get(prerequisite);
+      const b = indexOf.get(course);
+      if (a === undefined || b === undefined || a === b) return;
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      links.push([a, b]);
+    });
+
+    const xs = new Float64Array(n);
+    const ys = new Float64Array(n);
+    for (let i = 0; i < n; i++) {
+      const radius = idealLength * Math.sqrt(i + 0.5) * 0.5;
+      xs[i] = radius * Math.cos(i * GOLDEN_ANGLE);
+      ys[i] = radius * Math.sin(i * GOLDEN_ANGLE);
+    }
+
+    const dispX = new Float64Array(n);
+    const dispY = new Float64Array(n);
+    const initialTemperature = idealLength * Math.sqrt(n) / 4;
+    const k2 = idealLength * idealLength;
+
+    for (let iteration = 0; iteration < iterations; iteration++) {
+      dispX.fill(0);
+      dispY.fill(0);
+
+      for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+          const dx = xs[i] - xs[j];
+          const dy = ys[i] - ys[j];
+          const distance2 = Math.max(dx * dx + dy * dy, 0.01);
+          // Repulsive force k²/d along the unit vector, i.e. k²/d² along (dx, dy)
+          const force = k2 / distance2;
+          dispX[i] += dx * force;
+          dispY[i] += dy * force;
+          dispX[j] -= dx * force;
+          dispY[j] -= dy * force;
+        }
+      }
+
+      links.forEach(([a, b]) => {
+        const dx = xs[a] - xs[b];
+        const dy = ys[a] - ys[b];
+        const distance = Math.max(Math.hypot(dx, dy), 0.01);
+        // Attractive force d²/k along the unit vector
+        const force = distance / idealLength;
+        dispX[a] -= dx * force;
+        dispY[a] -= dy * force;
+        dispX[b] += dx * force;
+        dispY[b] += dy * force;
+      });
+
+      const temperature = initialTemperature * (1 - iteration / iterations);
+      for (let i = 0; i < n; i++) {
+        dispX[i] -= xs[i] * GRAVITY;
+        dispY[i] -= ys[i] * GRAVITY;
+        const length = Math.hypot(dispX[i], dispY[i]);
+        if (length === 0) continue;
+        const step = Math.min(length, temperature);
+        xs[i] += (dispX[i] / length) * step;
+        ys[i] += (dispY[i] / length) * step;
+      }
+      options.onProgress?.((iteration + 1) / iterations);
+    }
+
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let i = 0; i < n; i++) {
+      minX = Math.min(minX, xs[i]);
+      maxX = Math.max(maxX, xs[i]);
+      minY = Math.min(minY, ys[i]);
+      maxY = Math.max(maxY, ys[i]);
+    }
+    if (n === 0) minX = minY = maxX = maxY = 0;
+
+    const positions = new Map<string, Point>();
+    courseIds.forEach((id, i) => positions.set(id, { x: padding + xs[i] - minX, y: padding + ys[i] - minY }));
+
+    return {
+      positions,
+      edgeRoutes: new Map(),
+      width: maxX - minX + 2 * padding,
+      height: maxY - minY + 2 * padding
+    };
+  }
+}
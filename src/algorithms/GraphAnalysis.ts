@@ -0,0 +1,101 @@
+// Adjacency construction and ranked graph analysis shared by all algorithms
+
+import { Course, CourseNode, ConvergenceInfo, GraphData, GraphEdge, Prerequisite } from '../types/Course';
+import { RankingAlgorithm } from './RankingAlgorithm';
+
+export interface CourseAdjacency {
+  /** Nodes keyed by course ID, in course order, with degrees and neighbor lists filled in */
+  nodes: Map<string, CourseNode>;
+  /** Prerequisites whose endpoints are both known courses, without duplicates */
+  prerequisites: Prerequisite[];
+  edges: GraphEdge[];
+}
+
+export interface GraphAnalysisResult {
+  graph: GraphData;
+  /** Present for iterative algorithms */
+  convergence?: ConvergenceInfo;
+}
+
+export class GraphAnalysis {
+  /**
+   * Index prerequisites by course. Edges referring to unknown courses and
+   * repeated prerequisite/course pairs are left out of the neighbor lists
+   * and of the returned prerequisites and edges.
+   */
+  static buildAdjacency(courses: Course[], prerequisites: Prerequisite[]): CourseAdjacency {
+    const nodes = new Map<string, CourseNode>();
+    courses.forEach(course => {
+      nodes.set(course.id, {
+        ...course,
+        rank: 0,
+        score: 0,
+        inDegree: 0,
+        outDegree: 0,
+        prerequisites: [],
+        dependents: []
+      });
+    });
+
+    const knownPrerequisites: Prerequisite[] = [];
+    const edges: GraphEdge[] = [];
+    const seen = new Set<string>();
+    prerequisites.forEach(edge => {
+      const { prerequisite, course } = edge;
+      const prerequisiteNode = nodes.get(prerequisite);
+      const courseNode = nodes.get(course);
+      if (!prerequisiteNode || !courseNode) return;
+
+      const key = `${prerequisite}\u0000${course}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      knownPrerequisites.push(edge);
+      edges.push(GraphAnalysis.toGraphEdge(edge));
+      prerequisiteNode.dependents.push(course);
+      courseNode.prerequisites.push(prerequisite);
+    });
+
+    nodes.forEach(node => {
+      node.inDegree = node.dependents.length;
+      node.outDegree = node.prerequisites.length;
+    });
+
+    return { nodes, prerequisites: knownPrerequisites, edges };
+  }
+
+  /**
+   * Rank courses with the given algorithm and return fully populated nodes,
+   * ordered by rank, together with the graph edges
+   */
+  static analyze(algorithm: RankingAlgorithm, courses: Course[], prerequisites: Prerequisite[]): GraphAnalysisResult {
+    const adjacency = GraphAnalysis.buildAdjacency(courses, prerequisites);
+    const run = algorithm.rank(courses, adjacency.prerequisites);
+
+    const nodes = run.results.map(result => ({
+      ...adjacency.nodes.get(result.courseId)!,
+      rank: result.rank,
+      score: result.score
+    }));
+
+    return { graph: { nodes, edges: adjacency.edges }, convergence: run.convergence };
+  }
+
+  static toGraphEdge({ prerequisite, course, kind, group, strength, weight }: Prerequisite): GraphEdge {
+    const edge: GraphEdge = { source: prerequisite, target: course };
+    if (kind !== undefined) edge.kind = kind;
+    if (group !== undefined) edge.group = group;
+    if (strength !== undefined) edge.strength = strength;
+    if (weight !== undefined) edge.weight = weight;
+    return edge;
+  }
+
+  static toPrerequisite({ source, target, kind, group, strength, weight }: GraphEdge): Prerequisite {
+    const edge: Prerequisite = { prerequisite: source, course: target };
+    if (kind !== undefined) edge.kind = kind;
+    if (group !== undefined) edge.group = group;
+    if (strength !== undefined) edge.strength = strength;
+    if (weight !== undefined) edge.weight = weight;
+    return edge;
+  }
+}
@@ -0,0 +1,111 @@
+// HITS hubs and authorities over the reversed prerequisite graph
+
+import { Course, Prerequisite, RankingRun } from '../types/Course';
+import { AlgorithmId, RankingAlgorithm, RankingScores } from './RankingAlgorithm';
+
+export type HITSMode = 'authority' | 'hub';
+
+export class HITSCalculator implements RankingAlgorithm {
+  readonly id: AlgorithmId;
+  readonly name: string;
+  readonly scoreLabel: string;
+  readonly description: string;
+  private mode: HITSMode;
+  private maxIterations: number = 100;
+  private tolerance: number = 1e-6;
+
+  constructor(mode: HITSMode, maxIterations?: number, tolerance?: number) {
+    this.mode = mode;
+    if (maxIterations !== undefined) this.maxIterations = maxIterations;
+    if (tolerance !== undefined) this.tolerance = tolerance;
+
+    if (mode === 'authority') {
+      this.id = 'hits-authority';
+      this.name = 'HITS Authorities';
+      this.scoreLabel = 'Authority Score';
+      this.description =
+        'Each course points to its prerequisites. A course is a strong authority when it is ' +
+        'required by good hubs, so high scores mark prerequisites shared by courses that ' +
+        'themselves draw on many foundations.';
+    } else {
+      this.id = 'hits-hub';
+      this.name = 'HITS Hubs';
+      this.scoreLabel = 'Hub Score';
+      this.description =
+        'Each course points to its prerequisites. A course is a strong hub when it requires ' +
+        'many strong authorities, so high scores mark integrative courses that build on the ' +
+        'most foundational material.';
+    }
+  }
+
+  /**
+   * Alternate authority and hub updates until both vectors settle.
+   * Scores are normalized to sum to 1.
+   */
+  rank(courses: Course[], prerequisites: Prerequisite[]): RankingRun {
+    // Reversed graph: dependents of a course are the courses pointing at it
+    const pointsTo = new Map<string, string[]>();
+    const pointedFrom = RankingScores.dependentsIndex(courses, prerequisites);
+    courses.forEach(course => pointsTo.set(course.id, []));
+    pointedFrom.forEach((dependents, prerequisite) => {
+      dependents.forEach(dependent => pointsTo.get(dependent)!.push(prerequisite));
+    });
+
+    const N = courses.length;
+    let hubs = new Map(courses.map(course => [course.id, 1 / N]));
+    let authorities = new Map(courses.map(course => [course.id, 1 / N]));
+    const residualHistory: number[] = [];
+    let converged = N === 0;
+
+    for (let iteration = 0; iteration < this.maxIterations && !converged; iteration++) {
+      const newAuthorities = new Map<string, number>();
+      courses.forEach(course => {
+        newAuthorities.set(
+          course.id,
+          pointedFrom.get(course.id)!.reduce((sum, source) => sum + hubs.get(source)!, 0)
+        );
+      });
+      HITSCalculator.normalize(newAuthorities);
+
+      const newHubs = new Map<string, number>();
+      courses.forEach(course => {
+        newHubs.set(
+          course.id,
+          pointsTo.get(course.id)!.reduce((sum, target) => sum + newAuthorities.get(target)!, 0)
+        );
+      });
+      HITSCalculator.normalize(newHubs);
+
+      let residual = 0;
+      courses.forEach(course => {
+        residual += Math.abs(newAuthorities.get(course.id)! - authorities.get(course.id)!);
+        residual += Math.abs(newHubs.get(course.id)! - hubs.get(course.id)!);
+      });
+      residualHistory.push(residual);
+
+      authorities = newAuthorities;
+      hubs = newHubs;
+      converged = residual < this.tolerance;
+    }
+
+    return {
+      results: RankingScores.rank(courses, this.mode === 'authority' ? authorities : hubs),
+      convergence: {
+        iterations: residualHistory.length,
+        residual: residualHistory[residualHistory.length - 1] ?? 0,
+        converged,
+        residualHistory
+      }
+    };
+  }
+
+  formatScore(score: number): string {
+    return score.toFixed(4);
+  }
+
+  private static normalize(scores: Map<string, number>) {
+    let total = 0;
+    scores.forEach(score => { total += score; });
+    scores.forEach((score, id) => scores.set(id, total > 0 ? score / total : 0));
+  }
+}
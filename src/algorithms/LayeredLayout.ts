@@ -0,0 +1,212 @@
+// Sugiyama-style layered layout for the prerequisite graph
+
+import { Prerequisite } from '../types/Course';
+import { GraphLayout, LayoutOptions, Point } from '../types/Layout';
+import { CycleDetector } from './CycleDetection';
+
+// Alternating down/up barycenter sweeps used to reduce crossings
+const ORDERING_SWEEPS = 24;
+// Alternating passes that pull courses toward their neighbors
+const COORDINATE_PASSES = 8;
+// Width of an edge bend point relative to a course
+const DUMMY_WIDTH_RATIO = 0.3;
+
+export class LayeredLayout {
+  /**
+   * Lay courses out top to bottom in prerequisite order:
+   *   1. Layer assignment: each course sits one layer below its deepest
+   *      prerequisite (courses in a cycle share a layer).
+   *   2. Edges spanning several layers get a bend point on every layer in between.
+   *   3. Crossing reduction: courses are reordered within layers by the
+   *      barycenter of their neighbors, keeping the ordering with fewest crossings.
+   *   4. Coordinate assignment: courses move toward the mean position of their
+   *      neighbors without breaking the order or the minimum spacing.
+   * Edges within a layer or pointing upward (cycles, corequisites) are drawn directly.
+   */
+  static compute(courseIds: string[], prerequisites: Prerequisite[], options: LayoutOptions = {}): GraphLayout {
+    const nodeSpacing = options.nodeSpacing ?? 110;
+    const layerSpacing = options.layerSpacing ?? 140;
+    const padding = options.padding ?? 80;
+
+    const known = new Set(courseIds);
+    const edges = prerequisites.filter(p =>
+      known.has(p.prerequisite) && known.has(p.course) && p.prerequisite !== p.course
+    );
+
+    // 1. Layer assignment
+    const layerOf = CycleDetector.computeDepths(courseIds, edges);
+    const layerCount = courseIds.length > 0 ? Math.max(...Array.from(layerOf.values())) + 1 : 0;
+    const layers: string[][] = Array.from({ length: layerCount }, () => []);
+    courseIds.forEach(id => layers[layerOf.get(id)!].push(id));
+
+    // 2. Dummy nodes for long edges; links only ever join adjacent layers
+    const below = new Map<string, string[]>();
+    const above = new Map<string, string[]>();
+    const dummies = new Set<string>();
+    const chains = new Map<string, string[]>();
+    const seen = new Set<string>();
+
+    const link = (upper: string, lower: string) => {
+      if (!below.has(upper)) below.set(upper, []);
+      if (!above.has(lower)) above.set(lower, []);
+      below.get(upper)!.push(lower);
+      above.get(lower)!.push(upper);
+    };
+
+    edges.forEach(({ prerequisite, course }) => {
+      const key = `${prerequisite}->${course}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+
+      const from = layerOf.get(prerequisite)!;
+      const to = layerOf.get(course)!;
+      if (to <= from) return;
+
+      const chain: string[] = [];
+      let previous = prerequisite;
+      for (let layer = from + 1; layer < to; layer++) {
+        const dummy = `\u0000${key}\u0000${layer}`;
+        dummies.add(dummy);
+        layerOf.set(dummy, layer);
+        layers[layer].push(dummy);
+        chain.push(dummy);
+        link(previous, dummy);
+        previous = dummy;
+      }
+      link(previous, course);
+      if (chain.length > 0) chains.set(key, chain);
+    });
+
+    // 3. Crossing reduction
+    let best = layers.map(layer => [...layer]);
+    let bestCrossings = LayeredLayout.countAllCrossings(layers, below);
+    for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+      if (sweep % 2 === 0) {
+        for (let i = 1; i < layers.length; i++) LayeredLayout.orderByBarycenter(layers[i], layers[i - 1], above);
+      } else {
+        for (let i = layers.length - 2; i >= 0; i--) LayeredLayout.orderByBarycenter(layers[i], layers[i + 1], below);
+      }
+      const crossings = LayeredLayout.countAllCrossings(layers, below);
+      if (crossings < bestCrossings) {
+        best = layers.map(layer => [...layer]);
+        bestCrossings = crossings;
+      }
+    }
+
+    // 4. Coordinate assignment
+    const widthOf = (id: string) => (dummies.has(id) ? nodeSpacing * DUMMY_WIDTH_RATIO : nodeSpacing);
+    const x = new Map<string, number>();
+    best.forEach(layer => {
+      let cursor = 0;
+      layer.forEach((id, index) => {
+        if (index > 0) cursor += (widthOf(layer[index - 1]) + widthOf(id)) / 2;
+        x.set(id, cursor);
+      });
+      // Center every layer on the same axis
+      layer.forEach(id => x.set(id, x.get(id)! - cursor / 2));
+    });
+
+    for (let pass = 0; pass < COORDINATE_PASSES; pass++) {
+      const downward = pass % 2 === 0;
+      const indices = best.map((_, i) => i);
+      if (!downward) indices.reverse();
+      indices.forEach(i => {
+        const neighborsOf = downward ? above : below;
+        const desired = best[i].map(id => {
+          const neighbors = neighborsOf.get(id) ?? [];
+          if (neighbors.length === 0) return x.get(id)!;
+          return neighbors.reduce((sum, neighbor) => sum + x.get(neighbor)!, 0) / neighbors.length;
+        });
+        LayeredLayout.placeLayer(best[i], desired, widthOf).forEach((value, index) => x.set(best[i][index], value));
+      });
+    }
+
+    const xs = Array.from(x.values());
+    const minX = xs.length > 0 ? Math.min(...xs) : 0;
+    const maxX = xs.length > 0 ? Math.max(...xs) : 0;
+    const pointOf = (id: string): Point => ({
+      x: padding + x.get(id)! - minX,
+      y: padding + layerOf.get(id)! * layerSpacing
+    });
+
+    const positions = new Map<string, Point>();
+    courseIds.forEach(id => positions.set(id, pointOf(id)));
+    const edgeRoutes = new Map<string, Point[]>();
+    chains.forEach((chain, key) => edgeRoutes.set(key, chain.map(pointOf)));
+
+    return {
+      positions,
+      edgeRoutes,
+      width: maxX - minX + 2 * padding,
+      height: Math.max(layerCount - 1, 0) * layerSpacing + 2 * padding
+    };
+  }
+
+  /**
+   * Stable-sort a layer by the mean position of each node's neighbors in the
+   * fixed layer; nodes without neighbors keep their current position
+   */
+  private static orderByBarycenter(layer: string[], fixed: string[], neighborsOf: Map<string, string[]>): void {
+    const fixedIndex = new Map(fixed.map((id, index) => [id, index]));
+    const barycenters = new Map<string, number>();
+    layer.forEach((id, index) => {
+      const neighbors = neighborsOf.get(id) ?? [];
+      barycenters.set(
+        id,
+        neighbors.length > 0
+          ? neighbors.reduce((sum, neighbor) => sum + fixedIndex.get(neighbor)!, 0) / neighbors.length
+          : index
+      );
+    });
+    layer.sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+  }
+
+  private static countAllCrossings(layers: string[][], below: Map<string, string[]>): number {
+    let total = 0;
+    for (let i = 0; i + 1 < layers.length; i++) {
+      total += LayeredLayout.countCrossings(layers[i], layers[i + 1], below);
+    }
+    return total;
+  }
+
+  /**
+   * Count crossings between two adjacent layers as inversions of the lower
+   * endpoints once links are sorted by their upper endpoint, using a Fenwick tree
+   */
+  private static countCrossings(upper: string[], lower: string[], below: Map<string, string[]>): number {
+    const lowerIndex = new Map(lower.map((id, index) => [id, index]));
+    const links: [number, number][] = [];
+    upper.forEach((id, upperIndex) => {
+      (below.get(id) ?? []).forEach(neighbor => links.push([upperIndex, lowerIndex.get(neighbor)!]));
+    });
+    links.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+    const tree = new Array<number>(lower.length + 1).fill(0);
+    let crossings = 0;
+    links.forEach(([, position], seenCount) => {
+      // Links seen so far whose lower endpoint is at or left of this one
+      let atOrBefore = 0;
+      for (let i = position + 1; i > 0; i -= i & -i) atOrBefore += tree[i];
+      crossings += seenCount - atOrBefore;
+      for (let i = position + 1; i <= lower.length; i += i & -i) tree[i]++;
+    });
+    return crossings;
+  }
+
+  /**
+   * Place a layer as close to the desired centers as the order and spacing
+   * allow: push right from the left, push left from the right, then average
+   */
+  private static placeLayer(layer: string[], desired: number[], widthOf: (id: string) => number): number[] {
+    const gap = (i: number) => (widthOf(layer[i]) + widthOf(layer[i + 1])) / 2;
+    const fromLeft = [...desired];
+    for (let i = 1; i < layer.length; i++) {
+      fromLeft[i] = Math.max(desired[i], fromLeft[i - 1] + gap(i - 1));
+    }
+    const fromRight = [...desired];
+    for (let i = layer.length - 2; i >= 0; i--) {
+      fromRight[i] = Math.min(desired[i], fromRight[i + 1] - gap(i));
+    }
+    return fromLeft.map((value, i) => (value + fromRight[i]) / 2);
+  }
+}
@@ -0,0 +1,48 @@
+// Longest chain of courses that build on each course
+
+import { Course, Prerequisite, RankingRun } from '../types/Course';
+import { AlgorithmId, RankingAlgorithm, RankingScores } from './RankingAlgorithm';
+import { CycleDetector } from './CycleDetection';
+import { RequirementGroups } from './Requirements';
+
+export class LongestPathCalculator implements RankingAlgorithm {
+  readonly id: AlgorithmId = 'longest-path';
+  readonly name = 'Longest-Path Depth';
+  readonly scoreLabel = 'Chain Length';
+  readonly description =
+    'Length of the longest prerequisite chain that starts at this course. High values mark ' +
+    'courses that must be taken early because many terms of coursework build on them.';
+
+  /**
+   * Longest path to a course with no dependents, computed on the graph of
+   * strongly connected components so cycles and corequisites do not inflate it
+   */
+  rank(courses: Course[], prerequisites: Prerequisite[]): RankingRun {
+    const courseIds = courses.map(course => course.id);
+    const edges = RequirementGroups.orderingEdges(prerequisites);
+    const dependents = RankingScores.dependentsIndex(courses, edges);
+    const components = CycleDetector.findStronglyConnectedComponents(courseIds, edges);
+    const componentOf = new Map<string, number>();
+    components.forEach((members, index) => members.forEach(id => componentOf.set(id, index)));
+
+    // Components come out sinks first, so every dependent is resolved before its prerequisites
+    const heights = new Map<string, number>();
+    components.forEach((members, index) => {
+      let height = 0;
+      members.forEach(id => {
+        dependents.get(id)!.forEach(dependent => {
+          if (componentOf.get(dependent) !== index) {
+            height = Math.max(height, heights.get(dependent)! + 1);
+          }
+        });
+      });
+      members.forEach(id => heights.set(id, height));
+    });
+
+    return { results: RankingScores.rank(courses, heights) };
+  }
+
+  formatScore(score: number): string {
+    return score.toFixed(0);
+  }
+}
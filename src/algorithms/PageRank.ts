@@ -1,106 +1,156 @@
 // PageRank algorithm implementation for course prerequisites
 
-import { Course, Prerequisite, CourseNode, PageRankResult } from '../types/Course';
+import { Course, Prerequisite, CourseNode, GraphData, PageRankResult, PageRankRun, RankingRun } from '../types/Course';
+import { GraphAnalysis } from './GraphAnalysis';
+import { RequirementGroups } from './Requirements';
+import { SparseMatrix } from './SparseMatrix';
+import { AlgorithmId, RankingAlgorithm } from './RankingAlgorithm';
+
+export type DanglingStrategy = 'uniform' | 'personalized';
+
+export interface PageRankOptions {
+  /** Scale each edge's share of rank by its weight or strength */
+  weighted?: boolean;
+  /**
+   * Where the rank of courses without prerequisites goes on each step:
+   * spread over all courses, or according to `personalization`
+   */
+  danglingStrategy?: DanglingStrategy;
+  /**
+   * Teleport preference per course ID; missing courses get no preference.
+   * When set, random jumps restart at these courses, so rank measures how
+   * foundational a course is for them rather than for the whole catalog.
+   */
+  personalization?: Map<string, number>;
+}
+
+export class PageRankCalculator implements RankingAlgorithm {
+  readonly id: AlgorithmId = 'pagerank';
+  readonly name = 'PageRank';
+  readonly scoreLabel = 'PageRank Score';
+  readonly description =
+    'Treats each course as a node in a directed graph, where edges represent prerequisite ' +
+    'relationships. Courses with higher PageRank scores are more foundational as they serve ' +
+    'as prerequisites for many other courses.';
 
-export class PageRankCalculator {
   private dampingFactor: number = 0.85;
   private maxIterations: number = 100;
   private tolerance: number = 1e-6;
-
-  constructor(dampingFactor?: number, maxIterations?: number, tolerance?: number) {
-    if (dampingFactor) this.dampingFactor = dampingFactor;
-    if (maxIterations) this.maxIterations = maxIterations;
-    if (tolerance) this.tolerance = tolerance;
+  private weighted: boolean = false;
+  private danglingStrategy: DanglingStrategy = 'uniform';
+  private personalization?: Map<string, number>;
+
+  constructor(dampingFactor?: number, maxIterations?: number, tolerance?: number, options: PageRankOptions = {}) {
+    if (dampingFactor !== undefined) this.dampingFactor = dampingFactor;
+    if (maxIterations !== undefined) this.maxIterations = maxIterations;
+    if (tolerance !== undefined) this.tolerance = tolerance;
+    if (options.weighted !== undefined) this.weighted = options.weighted;
+    if (options.danglingStrategy !== undefined) this.danglingStrategy = options.danglingStrategy;
+    this.personalization = options.personalization;
   }
 
   /**
    * Calculate PageRank scores for courses based on prerequisites
    * Higher scores indicate more foundational courses (courses that are prerequisites for many others)
+   * A course passes its rank to its requirements; alternatives in a one-of
+   * group split the share of a single requirement instead of each taking a full share.
+   * In weighted mode the shares are additionally scaled by edge weight.
    */
   calculatePageRank(courses: Course[], prerequisites: Prerequisite[]): PageRankResult[] {
-    // Create adjacency lists - REVERSED for foundational ranking
-    const courseMap = new Map<string, CourseNode>();
-    const inLinks = new Map<string, Set<string>>();
-    const outLinks = new Map<string, Set<string>>();
-
-    // Initialize course nodes
-    courses.forEach(course => {
-      courseMap.set(course.id, {
-        ...course,
-        pageRank: 1.0,
-        inDegree: 0,
-        outDegree: 0,
-        prerequisites: [],
-        dependents: []
-      });
-      inLinks.set(course.id, new Set());
-      outLinks.set(course.id, new Set());
-    });
+    return this.run(courses, prerequisites).results;
+  }
 
-    // Build REVERSED graph: Course -> Prerequisite (to rank foundational courses higher)
-    prerequisites.forEach(({ prerequisite, course }) => {
-      if (courseMap.has(prerequisite) && courseMap.has(course)) {
-        // REVERSED: Course points to its prerequisite
-        outLinks.get(course)!.add(prerequisite);
-        inLinks.get(prerequisite)!.add(course);
-        
-        const prereqNode = courseMap.get(prerequisite)!;
-        const courseNode = courseMap.get(course)!;
-        
-        prereqNode.dependents.push(course);
-        courseNode.prerequisites.push(prerequisite);
+  rank(courses: Course[], prerequisites: Prerequisite[]): RankingRun {
+    const { results, ...convergence } = this.run(courses, prerequisites);
+    return { results, convergence };
+  }
+
+  formatScore(score: number): string {
+    return score.toFixed(4);
+  }
+
+  /**
+   * Run PageRank and report convergence alongside the ranked results.
+   * Courses without prerequisites have no outgoing links in the reversed graph;
+   * their rank is redistributed on every step so the scores always sum to 1.
+   * Courses are numbered and rank flows through a CSR matrix over typed arrays;
+   * sums are taken in course order, so results do not depend on the storage.
+   * A course listed more than once counts as a single node.
+   */
+  run(courses: Course[], prerequisites: Prerequisite[]): PageRankRun {
+    const residualHistory: number[] = [];
+    let converged = false;
+
+    if (courses.length === 0) {
+      return { results: [], iterations: 0, residual: 0, converged: true, residualHistory };
+    }
+
+    // Course -> prerequisite links, so rank flows toward foundational courses
+    const { nodes, prerequisites: knownEdges } = GraphAnalysis.buildAdjacency(courses, prerequisites);
+
+    // Fraction of each course's rank passed to each of its prerequisites
+    const edgeShares = RequirementGroups.edgeShares(knownEdges, this.weighted);
+
+    // Integer index per distinct course, in the order `courses` first lists them
+    const ids = Array.from(nodes.keys());
+    const N = ids.length;
+    const indexOf = new Map(ids.map((id, index) => [id, index]));
+    const dangling = Int32Array.from(ids.keys()).filter(index => nodes.get(ids[index])!.prerequisites.length === 0);
+
+    // Row i holds the dependents of course i and the share of their rank it receives
+    const incoming = SparseMatrix.build(
+      N,
+      row => nodes.get(ids[row])!.dependents.length,
+      (row, add) => {
+        const courseId = ids[row];
+        nodes.get(courseId)!.dependents.forEach(dependentId => {
+          add(indexOf.get(dependentId)!, edgeShares.get(dependentId)!.get(courseId)!);
+        });
       }
-    });
+    );
+    const { rowStart, columns, values } = incoming;
 
-    // Update degrees
-    courseMap.forEach((node, courseId) => {
-      node.inDegree = inLinks.get(courseId)!.size;
-      node.outDegree = outLinks.get(courseId)!.size;
-    });
+    const teleportDistribution = this.buildDistribution(ids, this.personalization);
+    const danglingDistribution = this.danglingStrategy === 'personalized'
+      ? teleportDistribution
+      : this.buildDistribution(ids, undefined);
 
-    const N = courses.length;
-    const pageRanks = new Map<string, number>();
-    
-    // Initialize PageRank values
-    courses.forEach(course => {
-      pageRanks.set(course.id, 1.0 / N);
-    });
+    let pageRanks = new Float64Array(N).fill(1.0 / N);
+    let newPageRanks = new Float64Array(N);
+    const d = this.dampingFactor;
 
     // Iterative PageRank calculation
     for (let iteration = 0; iteration < this.maxIterations; iteration++) {
-      const newPageRanks = new Map<string, number>();
-      let maxDiff = 0;
+      let residual = 0;
 
-      courses.forEach(course => {
-        let rank = (1 - this.dampingFactor) / N;
+      // Rank held by courses with nowhere to send it
+      let danglingMass = 0;
+      for (let k = 0; k < dangling.length; k++) danglingMass += pageRanks[dangling[k]];
+
+      for (let i = 0; i < N; i++) {
+        let rank = (1 - d) * teleportDistribution[i];
+        rank += d * danglingMass * danglingDistribution[i];
         // Sum contributions from courses that depend on this course
-        const incomingLinks = inLinks.get(course.id)!;
-        incomingLinks.forEach(dependentId => {
-          const dependentOutDegree = outLinks.get(dependentId)!.size;
-          if (dependentOutDegree > 0) {
-            rank += this.dampingFactor * (pageRanks.get(dependentId)! / dependentOutDegree);
-          }
-        });
-        newPageRanks.set(course.id, rank);
-        maxDiff = Math.max(maxDiff, Math.abs(rank - pageRanks.get(course.id)!));
-      });
+        for (let entry = rowStart[i]; entry < rowStart[i + 1]; entry++) {
+          rank += d * pageRanks[columns[entry]] * values[entry];
+        }
+        newPageRanks[i] = rank;
+        residual += Math.abs(rank - pageRanks[i]);
+      }
 
-      // Update PageRank values
-      newPageRanks.forEach((rank, courseId) => {
-        pageRanks.set(courseId, rank);
-        courseMap.get(courseId)!.pageRank = rank;
-      });
+      [pageRanks, newPageRanks] = [newPageRanks, pageRanks];
+      residualHistory.push(residual);
 
       // Check for convergence
-      if (maxDiff < this.tolerance) {
-        console.log(`PageRank converged after ${iteration + 1} iterations`);
+      if (residual < this.tolerance) {
+        converged = true;
         break;
       }
     }
 
     // Create results and sort by PageRank score (descending)
-    const results: PageRankResult[] = Array.from(pageRanks.entries())
-      .map(([courseId, score]) => ({ courseId, rank: 0, score }))
+    const results: PageRankResult[] = ids
+      .map((courseId, index) => ({ courseId, rank: 0, score: pageRanks[index] }))
       .sort((a, b) => b.score - a.score);
 
     // Assign ranks
@@ -108,35 +158,56 @@ export class PageRankCalculator {
       result.rank = index + 1;
     });
 
-    return results;
+    return {
+      results,
+      iterations: residualHistory.length,
+      residual: residualHistory[residualHistory.length - 1] ?? 0,
+      converged,
+      residualHistory
+    };
+  }
+
+  /**
+   * Build a personalization vector that seeds rank evenly from the given target courses
+   */
+  static targetPersonalization(targetCourseIds: string[]): Map<string, number> {
+    return new Map(targetCourseIds.map(id => [id, 1]));
+  }
+
+  /**
+   * Normalize preferences into a probability per course index; uniform when
+   * there are no preferences or none of them is positive
+   */
+  private buildDistribution(ids: string[], preferences?: Map<string, number>): Float64Array {
+    const distribution = new Float64Array(ids.length);
+    const total = preferences
+      ? ids.reduce((sum, id) => sum + Math.max(preferences.get(id) ?? 0, 0), 0)
+      : 0;
+
+    ids.forEach((id, index) => {
+      distribution[index] = preferences && total > 0
+        ? Math.max(preferences.get(id) ?? 0, 0) / total
+        : 1 / ids.length;
+    });
+    return distribution;
+  }
+
+  /**
+   * Rank courses and return the whole graph with fully populated nodes,
+   * ordered from most to least foundational
+   */
+  analyze(courses: Course[], prerequisites: Prerequisite[]): GraphData {
+    return GraphAnalysis.analyze(this, courses, prerequisites).graph;
   }
 
   /**
    * Get top N most foundational courses
    */
   getTopFoundationalCourses(
-    courses: Course[], 
-    prerequisites: Prerequisite[], 
+    courses: Course[],
+    prerequisites: Prerequisite[],
     topN: number = 10
-  ): (CourseNode & { rank: number; score: number })[] {
-    const pageRankResults = this.calculatePageRank(courses, prerequisites);
-    const courseMap = new Map<string, Course>();
-    courses.forEach(course => courseMap.set(course.id, course));
-
-    return pageRankResults
-      .slice(0, topN)
-      .map(result => {
-        const course = courseMap.get(result.courseId)!;
-        return {
-          ...course,
-          pageRank: result.score,
-          rank: result.rank,
-          score: result.score,
-          inDegree: 0,
-          outDegree: 0,
-          prerequisites: [],
-          dependents: []
-        };
-      });
+  ): CourseNode[] {
+    return this.analyze(courses, prerequisites).nodes.slice(0, topN);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,86 @@
+// Rank correlation between two rankings of the same courses
+
+import { RankingResult } from '../types/Course';
+
+export class RankCorrelation {
+  /**
+   * Spearman's rho computed as the Pearson correlation of the ranks.
+   * Only courses present in both rankings are compared.
+   */
+  static spearman(a: RankingResult[], b: RankingResult[]): number {
+    const pairs = RankCorrelation.pairScores(a, b);
+    if (pairs.length < 2) return 1;
+
+    const ranksA = RankCorrelation.averageRanks(pairs.map(([scoreA]) => scoreA));
+    const ranksB = RankCorrelation.averageRanks(pairs.map(([, scoreB]) => scoreB));
+    const n = pairs.length;
+    const meanA = ranksA.reduce((sum, rank) => sum + rank, 0) / n;
+    const meanB = ranksB.reduce((sum, rank) => sum + rank, 0) / n;
+
+    let covariance = 0;
+    let varianceA = 0;
+    let varianceB = 0;
+    for (let i = 0; i < n; i++) {
+      covariance += (ranksA[i] - meanA) * (ranksB[i] - meanB);
+      varianceA += (ranksA[i] - meanA) ** 2;
+      varianceB += (ranksB[i] - meanB) ** 2;
+    }
+
+    if (varianceA === 0 || varianceB === 0) return varianceA === varianceB ? 1 : 0;
+    return covariance / Math.sqrt(varianceA * varianceB);
+  }
+
+  /**
+   * Kendall's tau-b, which accounts for tied scores in either ranking
+   */
+  static kendallTau(a: RankingResult[], b: RankingResult[]): number {
+    const pairs = RankCorrelation.pairScores(a, b);
+    if (pairs.length < 2) return 1;
+
+    let concordant = 0;
+    let discordant = 0;
+    let tiesA = 0;
+    let tiesB = 0;
+    for (let i = 0; i < pairs.length; i++) {
+      for (let j = i + 1; j < pairs.length; j++) {
+        const signA = Math.sign(pairs[i][0] - pairs[j][0]);
+        const signB = Math.sign(pairs[i][1] - pairs[j][1]);
+        if (signA === 0 && signB === 0) continue;
+        if (signA === 0) tiesA++;
+        else if (signB === 0) tiesB++;
+        else if (signA === signB) concordant++;
+        else discordant++;
+      }
+    }
+
+    const denominator = Math.sqrt((concordant + discordant + tiesA) * (concordant + discordant + tiesB));
+    return denominator === 0 ? 1 : (concordant - discordant) / denominator;
+  }
+
+  /**
+   * Scores of the courses present in both rankings, as [scoreA, scoreB]
+   */
+  private static pairScores(a: RankingResult[], b: RankingResult[]): [number, number][] {
+    const scoresB = new Map(b.map(result => [result.courseId, result.score]));
+    return a
+      .filter(result => scoresB.has(result.courseId))
+      .map(result => [result.score, scoresB.get(result.courseId)!]);
+  }
+
+  /**
+   * Rank values from highest to lowest, giving tied values their average rank
+   */
+  private static averageRanks(values: number[]): number[] {
+    const order = values.map((value, index) => ({ value, index })).sort((x, y) => y.value - x.value);
+    const ranks = new Array<number>(values.length);
+    let start = 0;
+    while (start < order.length) {
+      let end = start;
+      while (end + 1 < order.length && order[end + 1].value === order[start].value) end++;
+      const averageRank = (start + end) / 2 + 1;
+      for (let k = start; k <= end; k++) ranks[order[k].index] = averageRank;
+      start = end + 1;
+    }
+    return ranks;
+  }
+}
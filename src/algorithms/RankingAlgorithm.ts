@@ -0,0 +1,66 @@
+// Common interface for course ranking algorithms
+
+import { Course, Prerequisite, RankingResult, RankingRun } from '../types/Course';
+
+export type AlgorithmId =
+  | 'pagerank'
+  | 'hits-authority'
+  | 'hits-hub'
+  | 'betweenness'
+  | 'transitive-dependents'
+  | 'longest-path';
+
+export interface RankingAlgorithm {
+  readonly id: AlgorithmId;
+  /** Display name of the algorithm */
+  readonly name: string;
+  /** Label for the score column, e.g. "PageRank Score" */
+  readonly scoreLabel: string;
+  /** One-paragraph explanation of what a high score means */
+  readonly description: string;
+
+  /**
+   * Score every course and return the results ranked by descending score
+   */
+  rank(courses: Course[], prerequisites: Prerequisite[]): RankingRun;
+
+  /**
+   * Format a score for display
+   */
+  formatScore(score: number): string;
+}
+
+export class RankingScores {
+  /**
+   * Turn a score per course into ranked results, highest score first.
+   * Ties keep the order of `courses`.
+   */
+  static rank(courses: Course[], scores: Map<string, number>): RankingResult[] {
+    const results = courses
+      .map(course => ({ courseId: course.id, rank: 0, score: scores.get(course.id) ?? 0 }))
+      .sort((a, b) => b.score - a.score);
+
+    results.forEach((result, index) => {
+      result.rank = index + 1;
+    });
+    return results;
+  }
+
+  /**
+   * Dependents per course along prerequisite -> course edges, ignoring edges
+   * with unknown endpoints and duplicate edges
+   */
+  static dependentsIndex(courses: Course[], prerequisites: Prerequisite[]): Map<string, string[]> {
+    const dependents = new Map<string, Set<string>>();
+    courses.forEach(course => dependents.set(course.id, new Set()));
+    prerequisites.forEach(({ prerequisite, course }) => {
+      if (dependents.has(prerequisite) && dependents.has(course)) {
+        dependents.get(prerequisite)!.add(course);
+      }
+    });
+
+    const index = new Map<string, string[]>();
+    dependents.forEach((set, id) => index.set(id, Array.from(set)));
+    return index;
+  }
+}
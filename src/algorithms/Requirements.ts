@@ -0,0 +1,104 @@
+// Grouping of prerequisite edges into all-of / one-of requirements
+
+import { Prerequisite, PrerequisiteGroup } from '../types/Course';
+
+/** Weight of a recommended prerequisite without an explicit weight */
+export const RECOMMENDED_WEIGHT = 0.5;
+
+export class RequirementGroups {
+  /**
+   * Group the edges of each course into requirements: ungrouped edges of the
+   * same kind form one all-of group, and every named group becomes a one-of group
+   */
+  static build(prerequisites: Prerequisite[]): Map<string, PrerequisiteGroup[]> {
+    const byCourse = new Map<string, PrerequisiteGroup[]>();
+    const allOf = new Map<string, PrerequisiteGroup>();
+    const oneOf = new Map<string, PrerequisiteGroup>();
+
+    prerequisites.forEach(({ prerequisite, course, kind = 'prerequisite', group }) => {
+      if (!byCourse.has(course)) byCourse.set(course, []);
+      const key = group !== undefined ? `${course}\u0000${group}` : `${course}\u0000${kind}`;
+      const index = group !== undefined ? oneOf : allOf;
+
+      let requirement = index.get(key);
+      if (!requirement) {
+        requirement = { course, mode: group !== undefined ? 'one-of' : 'all-of', kind, options: [] };
+        index.set(key, requirement);
+        byCourse.get(course)!.push(requirement);
+      }
+      if (!requirement.options.includes(prerequisite)) {
+        requirement.options.push(prerequisite);
+      }
+    });
+
+    return byCourse;
+  }
+
+  /**
+   * Share of a course's total requirement weight carried by each of its edges.
+   * Every mandatory edge and every one-of group counts as one requirement;
+   * alternatives in a group split that requirement's share evenly.
+   * When `weighted` is set, each share is scaled by the edge weight before the
+   * shares are normalized again.
+   * Returns course -> prerequisite -> share, with the shares of a course summing to 1.
+   */
+  static edgeShares(prerequisites: Prerequisite[], weighted: boolean = false): Map<string, Map<string, number>> {
+    const shares = new Map<string, Map<string, number>>();
+    const weights = new Map<string, number>();
+    if (weighted) {
+      prerequisites.forEach(edge => {
+        const key = `${edge.course}\u0000${edge.prerequisite}`;
+        weights.set(key, Math.max(weights.get(key) ?? 0, RequirementGroups.edgeWeight(edge)));
+      });
+    }
+
+    RequirementGroups.build(prerequisites).forEach((groups, course) => {
+      const requirementCount = groups.reduce(
+        (count, group) => count + (group.mode === 'one-of' ? 1 : group.options.length),
+        0
+      );
+      const courseShares = new Map<string, number>();
+
+      groups.forEach(group => {
+        const optionShare = group.mode === 'one-of'
+          ? 1 / requirementCount / group.options.length
+          : 1 / requirementCount;
+        group.options.forEach(option => {
+          courseShares.set(option, (courseShares.get(option) ?? 0) + optionShare);
+        });
+      });
+
+      if (weighted) {
+        let total = 0;
+        courseShares.forEach((share, option) => {
+          const weightedShare = share * weights.get(`${course}\u0000${option}`)!;
+          courseShares.set(option, weightedShare);
+          total += weightedShare;
+        });
+        courseShares.forEach((share, option) => {
+          courseShares.set(option, total > 0 ? share / total : 1 / courseShares.size);
+        });
+      }
+
+      shares.set(course, courseShares);
+    });
+
+    return shares;
+  }
+
+  /**
+   * Effective weight of an edge: its explicit weight, else a default by strength
+   */
+  static edgeWeight(edge: Pick<Prerequisite, 'weight' | 'strength'>): number {
+    if (edge.weight !== undefined) return edge.weight;
+    return edge.strength === 'recommended' ? RECOMMENDED_WEIGHT : 1;
+  }
+
+  /**
+   * Edges that impose an ordering: corequisites can be taken alongside the
+   * course, so they never make a course depend on an earlier term
+   */
+  static orderingEdges(prerequisites: Prerequisite[]): Prerequisite[] {
+    return prerequisites.filter(p => p.kind !== 'corequisite');
+  }
+}
@@ -0,0 +1,42 @@
+// Compressed sparse row (CSR) matrices over typed arrays
+
+export interface CSRMatrix {
+  /** Number of rows */
+  size: number;
+  /** Entries of row i are at positions rowStart[i] up to rowStart[i + 1] - 1 */
+  rowStart: Int32Array;
+  /** Column index of each entry */
+  columns: Int32Array;
+  values: Float64Array;
+}
+
+export class SparseMatrix {
+  /**
+   * Build a CSR matrix row by row. `rowLength` must match the number of
+   * entries `fillRow` adds; entries keep the order they were added in.
+   */
+  static build(
+    size: number,
+    rowLength: (row: number) => number,
+    fillRow: (row: number, add: (column: number, value: number) => void) => void
+  ): CSRMatrix {
+    const rowStart = new Int32Array(size + 1);
+    for (let row = 0; row < size; row++) rowStart[row + 1] = rowStart[row] + rowLength(row);
+
+    const columns = new Int32Array(rowStart[size]);
+    const values = new Float64Array(rowStart[size]);
+    let position = 0;
+    const add = (column: number, value: number) => {
+      columns[position] = column;
+      values[position] = value;
+      position++;
+    };
+    for (let row = 0; row < size; row++) {
+      position = rowStart[row];
+      fillRow(row, add);
+      if (position !== rowStart[row + 1]) throw new Error(`Row ${row} has a different number of entries than declared`);
+    }
+
+    return { size, rowStart, columns, values };
+  }
+}
@@ -0,0 +1,246 @@
+// Term-by-term study plan that respects prerequisites and a credit limit
+
+import { Course, Prerequisite, PrerequisiteGroup } from '../types/Course';
+import { CycleDetector } from './CycleDetection';
+import { RequirementGroups } from './Requirements';
+
+export interface StudyPlanOptions {
+  /** Most credits a student may take in one term */
+  maxCreditsPerTerm: number;
+  /** Courses already passed; they satisfy requirements and are not scheduled */
+  completed?: string[];
+}
+
+export interface PlannedTerm {
+  /** 1-based term number */
+  term: number;
+  courses: string[];
+  credits: number;
+}
+
+export type UnschedulableReason = 'cycle' | 'credits' | 'blocked';
+
+export interface UnschedulableCourse {
+  courseId: string;
+  /**
+   * `cycle`: part of a circular prerequisite chain; `credits`: worth more than
+   * the credit limit; `blocked`: needs a course that cannot be scheduled
+   */
+  reason: UnschedulableReason;
+}
+
+export interface StudyPlan {
+  terms: PlannedTerm[];
+  /** Fewest terms possible without a credit limit: the length of the critical path */
+  minimumTerms: number;
+  /** A longest chain of remaining courses, one per term, ending in the last term */
+  criticalPath: string[];
+  /** Credits still to take, counting only courses that could be scheduled */
+  totalCredits: number;
+  unschedulable: UnschedulableCourse[];
+  /** Completed course IDs that are not part of the curriculum */
+  unknownCompleted: string[];
+}
+
+export class StudyPlanner {
+  /**
+   * Schedule every course that is not completed yet into terms of at most
+   * `maxCreditsPerTerm` credits. A course can be taken once every prerequisite
+   * (or one option of each one-of group) was passed in an earlier term;
+   * corequisites may also be taken in the same term.
+   * Terms are filled greedily, preferring the courses that start the longest
+   * remaining chains, so the plan stays close to the critical path.
+   * Courses without credits count as 0.
+   */
+  static plan(courses: Course[], prerequisites: Prerequisite[], options: StudyPlanOptions): StudyPlan {
+    const courseById = new Map(courses.map(course => [course.id, course]));
+    const edges = prerequisites.filter(p => courseById.has(p.prerequisite) && courseById.has(p.course));
+    const requirements = RequirementGroups.build(edges);
+    const completed = new Set((options.completed ?? []).filter(id => courseById.has(id)));
+    const unknownCompleted = (options.completed ?? []).filter(id => !courseById.has(id));
+    const maxCredits = Math.max(options.maxCreditsPerTerm, 0);
+
+    // Courses that can never be eligible
+    const unschedulable = new Map<string, UnschedulableReason>();
+    const orderingEdges = RequirementGroups.orderingEdges(edges);
+    CycleDetector.findStronglyConnectedComponents(courses.map(course => course.id), orderingEdges)
+      .forEach(members => {
+        const isCycle = members.length > 1 ||
+          orderingEdges.some(edge => edge.prerequisite === members[0] && edge.course === members[0]);
+        if (isCycle) members.forEach(id => { if (!completed.has(id)) unschedulable.set(id, 'cycle'); });
+      });
+    courses.forEach(course => {
+      if (!completed.has(course.id) && !unschedulable.has(course.id) && (course.credits ?? 0) > maxCredits) {
+        unschedulable.set(course.id, 'credits');
+      }
+    });
+
+    const remaining = courses.map(course => course.id).filter(id => !completed.has(id) && !unschedulable.has(id));
+    const earliest = StudyPlanner.schedule(remaining, requirements, completed, courseById, Infinity);
+    const priority = StudyPlanner.chainLengths(remaining, edges, earliest.termOf);
+    const planned = StudyPlanner.schedule(remaining, requirements, completed, courseById, maxCredits, priority);
+
+    remaining.forEach(id => {
+      if (!planned.termOf.has(id)) unschedulable.set(id, 'blocked');
+    });
+
+    return {
+      terms: planned.terms,
+      minimumTerms: earliest.terms.length,
+      criticalPath: StudyPlanner.criticalPath(earliest.terms, earliest.termOf, requirements),
+      totalCredits: planned.terms.reduce((sum, term) => sum + term.credits, 0),
+      unschedulable: courses
+        .filter(course => unschedulable.has(course.id))
+        .map(course => ({ courseId: course.id, reason: unschedulable.get(course.id)! })),
+      unknownCompleted
+    };
+  }
+
+  /**
+   * List scheduling: each term takes eligible courses in priority order while
+   * they fit, repeating the pass so same-term corequisites can unlock courses.
+   * Stops when a term would stay empty.
+   */
+  private static schedule(
+    courseIds: string[],
+    requirements: Map<string, PrerequisiteGroup[]>,
+    completed: Set<string>,
+    courseById: Map<string, Course>,
+    maxCredits: number,
+    priority?: Map<string, number>
+  ): { terms: PlannedTerm[]; termOf: Map<string, number> } {
+    const position = new Map(courseIds.map((id, index) => [id, index]));
+    const byPriority = (a: string, b: string) =>
+      (priority?.get(b) ?? 0) - (priority?.get(a) ?? 0) || position.get(a)! - position.get(b)!;
+
+    const termOf = new Map<string, number>();
+    completed.forEach(id => termOf.set(id, 0));
+    const terms: PlannedTerm[] = [];
+    let pending = [...courseIds].sort(byPriority);
+
+    while (pending.length > 0) {
+      const term = terms.length + 1;
+      const taken: string[] = [];
+      let credits = 0;
+      let added = true;
+
+      while (added) {
+        added = false;
+        pending = pending.filter(id => {
+          const courseCredits = courseById.get(id)!.credits ?? 0;
+          if (credits + courseCredits > maxCredits) return true;
+          if (!StudyPlanner.isEligible(id, term, requirements, termOf)) return true;
+          termOf.set(id, term);
+          taken.push(id);
+          credits += courseCredits;
+          added = true;
+          return false;
+        });
+      }
+
+      if (taken.length === 0) break;
+      terms.push({ term, courses: taken, credits });
+    }
+
+    return { terms, termOf };
+  }
+
+  /**
+   * Whether every requirement of a course is met by courses passed before
+   * `term`, or for corequisites, taken in `term` at the latest
+   */
+  private static isEligible(
+    courseId: string,
+    term: number,
+    requirements: Map<string, PrerequisiteGroup[]>,
+    termOf: Map<string, number>
+  ): boolean {
+    return (requirements.get(courseId) ?? []).every(group => {
+      const limit = group.kind === 'corequisite' ? term : term - 1;
+      const met = (option: string) => termOf.has(option) && termOf.get(option)! <= limit;
+      return group.mode === 'one-of' ? group.options.some(met) : group.options.every(met);
+    });
+  }
+
+  /**
+   * Number of terms from each course to the end of the longest chain of
+   * dependents that can follow it, from the unconstrained schedule
+   */
+  private static chainLengths(
+    courseIds: string[],
+    edges: Prerequisite[],
+    termOf: Map<string, number>
+  ): Map<string, number> {
+    const lengths = new Map<string, number>();
+    const dependents = new Map<string, string[]>(courseIds.map(id => [id, []]));
+    RequirementGroups.orderingEdges(edges).forEach(({ prerequisite, course }) => {
+      if (dependents.has(prerequisite) && termOf.has(course)) dependents.get(prerequisite)!.push(course);
+    });
+
+    // Latest terms first, so dependents are resolved before their prerequisites
+    const ordered = courseIds
+      .filter(id => termOf.has(id))
+      .sort((a, b) => termOf.get(b)! - termOf.get(a)!);
+    ordered.forEach(id => {
+      const next = dependents.get(id)!.filter(dependent => termOf.get(dependent)! > termOf.get(id)!);
+      lengths.set(id, 1 + Math.max(0, ...next.map(dependent => lengths.get(dependent) ?? 0)));
+    });
+    return lengths;
+  }
+
+  /**
+   * Walk back from a course in the last term of the unconstrained schedule,
+   * each time to the requirement that kept it from an earlier term
+   */
+  private static criticalPath(
+    terms: PlannedTerm[],
+    termOf: Map<string, number>,
+    requirements: Map<string, PrerequisiteGroup[]>
+  ): string[] {
+    if (terms.length === 0) return [];
+    const walk = (start: string) => {
+      const path = [start];
+      let current = StudyPlanner.bindingRequirement(start, termOf, requirements, new Set());
+      while (current !== undefined) {
+        path.unshift(current);
+        current = StudyPlanner.bindingRequirement(current, termOf, requirements, new Set());
+      }
+      return path;
+    };
+
+    return terms[terms.length - 1].courses
+      .map(walk)
+      .reduce((longest, path) => (path.length > longest.length ? path : longest));
+  }
+
+  /**
+   * The prerequisite passed in the term right before a course that decided
+   * its term, possibly through a corequisite taken alongside it
+   */
+  private static bindingRequirement(
+    courseId: string,
+    termOf: Map<string, number>,
+    requirements: Map<string, PrerequisiteGroup[]>,
+    visited: Set<string>
+  ): string | undefined {
+    const term = termOf.get(courseId)!;
+    visited.add(courseId);
+    if (term <= 1) return undefined;
+
+    for (const group of requirements.get(courseId) ?? []) {
+      const options = group.options
+        .filter(option => termOf.has(option))
+        .sort((a, b) => termOf.get(a)! - termOf.get(b)!);
+      // A one-of group is met by its earliest option, an all-of group by its latest
+      const satisfiedBy = group.mode === 'one-of' ? options[0] : options[options.length - 1];
+      if (satisfiedBy === undefined) continue;
+
+      if (group.kind === 'prerequisite' && termOf.get(satisfiedBy) === term - 1) return satisfiedBy;
+      if (group.kind === 'corequisite' && termOf.get(satisfiedBy) === term && !visited.has(satisfiedBy)) {
+        const binding = StudyPlanner.bindingRequirement(satisfiedBy, termOf, requirements, visited);
+        if (binding !== undefined) return binding;
+      }
+    }
+    return undefined;
+  }
+}
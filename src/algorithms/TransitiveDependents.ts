@@ -0,0 +1,36 @@
+// Count of courses that transitively depend on each course
+
+import { Course, Prerequisite, RankingRun } from '../types/Course';
+import { AlgorithmId, RankingAlgorithm, RankingScores } from './RankingAlgorithm';
+
+export class TransitiveDependentsCalculator implements RankingAlgorithm {
+  readonly id: AlgorithmId = 'transitive-dependents';
+  readonly name = 'Transitive Dependents';
+  readonly scoreLabel = 'Dependent Courses';
+  readonly description =
+    'Counts every course that requires this course directly or through a chain of ' +
+    'prerequisites. High counts mark courses that unlock the largest part of the curriculum.';
+
+  rank(courses: Course[], prerequisites: Prerequisite[]): RankingRun {
+    const dependents = RankingScores.dependentsIndex(courses, prerequisites);
+    const counts = new Map<string, number>();
+
+    courses.forEach(({ id }) => {
+      const reached = new Set<string>();
+      const queue = [...dependents.get(id)!];
+      for (let head = 0; head < queue.length; head++) {
+        const current = queue[head];
+        if (reached.has(current) || current === id) continue;
+        reached.add(current);
+        dependents.get(current)!.forEach(next => queue.push(next));
+      }
+      counts.set(id, reached.size);
+    });
+
+    return { results: RankingScores.rank(courses, counts) };
+  }
+
+  formatScore(score: number): string {
+    return score.toFixed(0);
+  }
+}
@@ -0,0 +1,135 @@
+// Impact of hypothetical prerequisite and course changes, measured against the baseline
+
+import { Course, Prerequisite } from '../types/Course';
+import { CurriculumDiff, CurriculumDiffResult, CurriculumVersion } from './CurriculumDiff';
+import { PageRankCalculator } from './PageRank';
+import { RankingAlgorithm } from './RankingAlgorithm';
+import { StudyPlanner } from './StudyPlan';
+
+export interface WhatIfScenario {
+  /** Baseline edges switched off, keyed as "A->B", or "A->B:group" for an edge in a group */
+  disabledEdges: Set<string>;
+  /** Courses switched off together with all of their edges */
+  disabledCourses: Set<string>;
+  /** Hypothetical prerequisites added on top of the baseline */
+  addedEdges: Prerequisite[];
+}
+
+export interface CriticalPathSummary {
+  /** Fewest terms needed without a credit limit */
+  terms: number;
+  path: string[];
+}
+
+export interface WhatIfResult {
+  /** The scratch copy the scenario was evaluated on */
+  scenario: CurriculumVersion;
+  /** Changes and rank movement from the baseline to the scenario */
+  diff: CurriculumDiffResult;
+  /**
+   * Remaining courses the scenario cut off: they were part of the largest
+   * connected group of courses, or had at least one edge, and no longer do
+   */
+  newlyDisconnected: string[];
+  baselineCriticalPath: CriticalPathSummary;
+  scenarioCriticalPath: CriticalPathSummary;
+}
+
+export const whatIfEdgeKey = (edge: Prerequisite) =>
+  `${edge.prerequisite}->${edge.course}${edge.group !== undefined ? `:${edge.group}` : ''}`;
+
+export class WhatIfAnalysis {
+  /**
+   * Build the scenario's curriculum as a new copy; the baseline is not modified
+   */
+  static apply(baseline: CurriculumVersion, scenario: WhatIfScenario): CurriculumVersion {
+    const courses = baseline.courses.filter(course => !scenario.disabledCourses.has(course.id));
+    const active = (edge: Prerequisite) =>
+      !scenario.disabledCourses.has(edge.prerequisite) && !scenario.disabledCourses.has(edge.course);
+    return {
+      courses,
+      prerequisites: [
+        ...baseline.prerequisites.filter(edge => active(edge) && !scenario.disabledEdges.has(whatIfEdgeKey(edge))),
+        ...scenario.addedEdges.filter(active)
+      ]
+    };
+  }
+
+  static isEmpty(scenario: WhatIfScenario): boolean {
+    return scenario.disabledEdges.size === 0 && scenario.disabledCourses.size === 0 && scenario.addedEdges.length === 0;
+  }
+
+  /**
+   * Rank both curricula with the same algorithm (PageRank by default) and
+   * compare their structure and critical paths
+   */
+  static analyze(
+    baseline: CurriculumVersion,
+    scenario: WhatIfScenario,
+    algorithm: RankingAlgorithm = new PageRankCalculator()
+  ): WhatIfResult {
+    const version = WhatIfAnalysis.apply(baseline, scenario);
+    return {
+      scenario: version,
+      diff: CurriculumDiff.compare(baseline, version, algorithm),
+      newlyDisconnected: WhatIfAnalysis.newlyDisconnected(baseline, version),
+      baselineCriticalPath: WhatIfAnalysis.criticalPath(baseline),
+      scenarioCriticalPath: WhatIfAnalysis.criticalPath(version)
+    };
+  }
+
+  private static criticalPath({ courses, prerequisites }: CurriculumVersion): CriticalPathSummary {
+    const plan = StudyPlanner.plan(courses, prerequisites, { maxCreditsPerTerm: Infinity });
+    return { terms: plan.minimumTerms, path: plan.criticalPath };
+  }
+
+  private static newlyDisconnected(baseline: CurriculumVersion, scenario: CurriculumVersion): string[] {
+    const before = WhatIfAnalysis.connectivity(baseline.courses, baseline.prerequisites);
+    const after = WhatIfAnalysis.connectivity(scenario.courses, scenario.prerequisites);
+    return scenario.courses
+      .map(course => course.id)
+      .filter(id =>
+        (before.linked.has(id) && !after.linked.has(id)) ||
+        (before.main.has(id) && !after.main.has(id))
+      );
+  }
+
+  /**
+   * Courses with at least one edge, and the largest weakly connected group of
+   * courses, found with union-find
+   */
+  private static connectivity(courses: Course[], prerequisites: Prerequisite[]) {
+    const parent = new Map(courses.map(course => [course.id, course.id]));
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      // Path compression
+      while (id !== root) {
+        const next = parent.get(id)!;
+        parent.set(id, root);
+        id = next;
+      }
+      return root;
+    };
+
+    const linked = new Set<string>();
+    prerequisites.forEach(({ prerequisite, course }) => {
+      if (!parent.has(prerequisite) || !parent.has(course) || prerequisite === course) return;
+      linked.add(prerequisite);
+      linked.add(course);
+      parent.set(find(prerequisite), find(course));
+    });
+
+    const members = new Map<string, string[]>();
+    linked.forEach(id => {
+      const root = find(id);
+      if (!members.has(root)) members.set(root, []);
+      members.get(root)!.push(id);
+    });
+    const largest = Array.from(members.values()).reduce<string[]>(
+      (best, group) => (group.length > best.length ? group : best),
+      []
+    );
+    return { linked, main: new Set(largest) };
+  }
+}
@@ -0,0 +1,120 @@
+// Available ranking algorithms and their construction from UI settings
+
+import { AlgorithmId, RankingAlgorithm } from './RankingAlgorithm';
+import { PageRankCalculator } from './PageRank';
+import { HITSCalculator } from './HITS';
+import { BetweennessCalculator } from './Betweenness';
+import { TransitiveDependentsCalculator } from './TransitiveDependents';
+import { LongestPathCalculator } from './LongestPath';
+
+export interface RankingSettings {
+  algorithm: AlgorithmId;
+  dampingFactor: number;
+  weighted: boolean;
+  /** Target courses for personalized PageRank; empty for a global ranking */
+  targetCourses: string[];
+  /** Iteration limit of iterative algorithms; defaults to 100 */
+  maxIterations?: number;
+  /** Convergence threshold of iterative algorithms; defaults to 1e-6 */
+  tolerance?: number;
+}
+
+const DEFAULT_MAX_ITERATIONS = 100;
+const DEFAULT_TOLERANCE = 1e-6;
+
+// PageRank needs 0 < d < 1: at 0 links are ignored, above 1 the teleport term turns negative
+export const MIN_DAMPING_FACTOR = 0.01;
+export const MAX_DAMPING_FACTOR = 0.99;
+
+export const DEFAULT_RANKING_SETTINGS: RankingSettings = {
+  algorithm: 'pagerank',
+  dampingFactor: 0.85,
+  weighted: false,
+  targetCourses: []
+};
+
+export const RANKING_ALGORITHMS: { id: AlgorithmId; name: string }[] = [
+  { id: 'pagerank', name: 'PageRank' },
+  { id: 'hits-authority', name: 'HITS Authorities' },
+  { id: 'hits-hub', name: 'HITS Hubs' },
+  { id: 'betweenness', name: 'Betweenness Centrality' },
+  { id: 'transitive-dependents', name: 'Transitive Dependents' },
+  { id: 'longest-path', name: 'Longest-Path Depth' }
+];
+
+export class RankingAlgorithms {
+  /**
+   * Short label for a configuration, e.g. "PageRank (d=0.85, weighted)"
+   */
+  static describe(settings: RankingSettings): string {
+    const name = RANKING_ALGORITHMS.find(({ id }) => id === settings.algorithm)?.name ?? settings.algorithm;
+    if (settings.algorithm !== 'pagerank') return name;
+
+    const details = [`d=${settings.dampingFactor}`];
+    if (settings.weighted) details.push('weighted');
+    if (settings.targetCourses.length > 0) details.push(`${settings.targetCourses.length} targets`);
+    return `${name} (${details.join(', ')})`;
+  }
+
+  /**
+   * Read a damping factor typed by the user, clamped into PageRank's valid
+   * range; null when the input is empty or not a number
+   */
+  static parseDampingFactor(value: string): number | null {
+    if (value.trim() === '') return null;
+    const dampingFactor = Number(value);
+    if (!Number.isFinite(dampingFactor)) return null;
+    return Math.min(Math.max(dampingFactor, MIN_DAMPING_FACTOR), MAX_DAMPING_FACTOR);
+  }
+
+  /**
+   * Parameters that affect the ranking produced by a configuration, for reports and exports
+   */
+  static parameters(settings: RankingSettings): Record<string, string | number | boolean> {
+    switch (settings.algorithm) {
+      case 'pagerank':
+        return {
+          dampingFactor: settings.dampingFactor,
+          weighted: settings.weighted,
+          targetCourses: settings.targetCourses.join(' '),
+          maxIterations: settings.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+          tolerance: settings.tolerance ?? DEFAULT_TOLERANCE
+        };
+      case 'hits-authority':
+      case 'hits-hub':
+        return {
+          maxIterations: settings.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+          tolerance: settings.tolerance ?? DEFAULT_TOLERANCE
+        };
+      default:
+        return {};
+    }
+  }
+
+  /**
+   * Create the algorithm selected in the settings. Damping, edge weights and
+   * targets only apply to PageRank; iteration limits to PageRank and HITS.
+   */
+  static create(settings: RankingSettings): RankingAlgorithm {
+    switch (settings.algorithm) {
+      case 'pagerank': {
+        const personalized = settings.targetCourses.length > 0;
+        return new PageRankCalculator(settings.dampingFactor, settings.maxIterations, settings.tolerance, {
+          weighted: settings.weighted,
+          personalization: personalized ? PageRankCalculator.targetPersonalization(settings.targetCourses) : undefined,
+          danglingStrategy: personalized ? 'personalized' : 'uniform'
+        });
+      }
+      case 'hits-authority':
+        return new HITSCalculator('authority', settings.maxIterations, settings.tolerance);
+      case 'hits-hub':
+        return new HITSCalculator('hub', settings.maxIterations, settings.tolerance);
+      case 'betweenness':
+        return new BetweennessCalculator();
+      case 'transitive-dependents':
+        return new TransitiveDependentsCalculator();
+      case 'longest-path':
+        return new LongestPathCalculator();
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// Progress of a ranking or layout computation running in the analysis worker
+
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { AnalysisProgress } from '../workers/analysisTasks';
+
+interface AnalysisProgressBarProps {
+  progress: AnalysisProgress;
+  className?: string;
+}
+
+export const AnalysisProgressBar: React.FC<AnalysisProgressBarProps> = ({ progress, className = '' }) => {
+  const percent = Math.round(Math.min(Math.max(progress.fraction, 0), 1) * 100);
+  return (
+    <div className={className} role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+      <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+        <span className="flex items-center">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          {progress.stage}…
+        </span>
+        <span className="font-mono">{percent}%</span>
+      </div>
+      <div className="h-1.5 bg-gray-200 rounded-full overflow-hidden">
+        <div className="h-full bg-blue-600 rounded-full transition-all duration-200" style={{ width: `${percent}%` }} />
+      </div>
+    </div>
+  );
+};
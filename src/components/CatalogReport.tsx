@@ -0,0 +1,85 @@
+// Summary of how a course catalog lined up with the prerequisite edges
+
+import React, { useState } from 'react';
+import { Library, X } from 'lucide-react';
+import { CatalogMergeReport } from '../utils/csvParser';
+
+interface CatalogReportProps {
+  report: CatalogMergeReport;
+  catalogSize: number;
+  onDismiss?: () => void;
+}
+
+const PREVIEW_LIMIT = 12;
+
+const CourseIdList: React.FC<{ ids: string[] }> = ({ ids }) => {
+  const [expanded, setExpanded] = useState(false);
+  const visible = expanded ? ids : ids.slice(0, PREVIEW_LIMIT);
+
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {visible.map(id => (
+        <span key={id} className="px-2 py-0.5 bg-white/80 border border-gray-200 rounded font-mono text-xs text-gray-700">
+          {id}
+        </span>
+      ))}
+      {ids.length > PREVIEW_LIMIT && (
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="px-2 py-0.5 text-xs text-blue-600 hover:underline"
+        >
+          {expanded ? 'Show less' : `+${ids.length - PREVIEW_LIMIT} more`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const CatalogReport: React.FC<CatalogReportProps> = ({ report, catalogSize, onDismiss }) => {
+  const { unlinkedCourses, missingFromCatalog } = report;
+
+  return (
+    <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+      <div className="flex items-start justify-between">
+        <div className="flex items-center space-x-2">
+          <Library className="w-5 h-5 text-indigo-600" />
+          <p className="font-medium text-gray-900">
+            Catalog merged: {catalogSize} courses
+          </p>
+        </div>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="p-1 text-gray-500 hover:text-gray-700 hover:bg-white/60 rounded"
+            aria-label="Dismiss catalog report"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {unlinkedCourses.length === 0 && missingFromCatalog.length === 0 ? (
+        <p className="text-sm text-gray-600 mt-2">
+          Every catalog course appears in the prerequisite data and every prerequisite is in the catalog.
+        </p>
+      ) : (
+        <div className="grid md:grid-cols-2 gap-4 mt-3 text-sm">
+          <div>
+            <p className="text-gray-700">
+              <span className="font-semibold">{unlinkedCourses.length}</span> catalog course
+              {unlinkedCourses.length === 1 ? '' : 's'} without prerequisite edges
+            </p>
+            {unlinkedCourses.length > 0 && <CourseIdList ids={unlinkedCourses} />}
+          </div>
+          <div>
+            <p className="text-gray-700">
+              <span className="font-semibold">{missingFromCatalog.length}</span> prerequisite course
+              {missingFromCatalog.length === 1 ? '' : 's'} missing from the catalog
+            </p>
+            {missingFromCatalog.length > 0 && <CourseIdList ids={missingFromCatalog} />}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,226 @@
+// Side-by-side comparison of several ranking configurations
+
+import React, { useMemo, useState } from 'react';
+import { GitCompare, Plus, X } from 'lucide-react';
+import { Course, Prerequisite } from '../types/Course';
+import { AlgorithmId } from '../algorithms/RankingAlgorithm';
+import { MAX_DAMPING_FACTOR, MIN_DAMPING_FACTOR, RANKING_ALGORITHMS, RankingAlgorithms, RankingSettings } from '../algorithms/registry';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+
+interface ComparisonViewProps {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+  initialConfigurations: RankingSettings[];
+  rowLimit?: number;
+}
+
+const MAX_CONFIGURATIONS = 4;
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({
+  courses,
+  prerequisites,
+  initialConfigurations,
+  rowLimit = 20
+}) => {
+  const [configurations, setConfigurations] = useState<RankingSettings[]>(initialConfigurations);
+  const [showAll, setShowAll] = useState(false);
+
+  // Rankings and their pairwise correlations come from the analysis worker; the
+  // last comparison stays on screen until the new one is ready
+  const comparisonTask = useMemo(
+    () => ({ type: 'configurations' as const, input: { configurations, courses, prerequisites } }),
+    [configurations, courses, prerequisites]
+  );
+  const comparison = useAnalysisTask(comparisonTask);
+
+  const runs = useMemo(
+    () => (comparison.result?.runs ?? []).map(({ settings, results }) => ({
+      label: RankingAlgorithms.describe(settings),
+      results,
+      ranks: new Map(results.map(result => [result.courseId, result.rank]))
+    })),
+    [comparison.result]
+  );
+
+  // Each pair is correlated once; the matrix shows it on both sides of the diagonal
+  const correlation = useMemo(() => {
+    const byPair = new Map((comparison.result?.correlations ?? []).map(entry => [`${entry.a}:${entry.b}`, entry]));
+    return (row: number, column: number) => byPair.get(row < column ? `${row}:${column}` : `${column}:${row}`);
+  }, [comparison.result]);
+
+  const courseMap = useMemo(() => new Map(courses.map(course => [course.id, course])), [courses]);
+  const baseline = runs[0];
+  const rows = !baseline ? [] : showAll ? baseline.results : baseline.results.slice(0, rowLimit);
+
+  const updateConfiguration = (index: number, changes: Partial<RankingSettings>) => {
+    setConfigurations(configurations.map((settings, i) => (i === index ? { ...settings, ...changes } : settings)));
+  };
+
+  const addConfiguration = () => {
+    const last = configurations[configurations.length - 1];
+    setConfigurations([...configurations, { ...last }]);
+  };
+
+  const renderDelta = (delta: number) => {
+    if (delta === 0) return <span className="text-gray-400">=</span>;
+    return (
+      <span className={delta > 0 ? 'text-green-600' : 'text-red-600'}>
+        {delta > 0 ? `▲${delta}` : `▼${-delta}`}
+      </span>
+    );
+  };
+
+  return (
+    <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50 space-y-6">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <GitCompare className="w-5 h-5 mr-2" />
+        Compare Configurations
+      </h3>
+
+      {/* Configurations */}
+      <div className="space-y-2">
+        {configurations.map((settings, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-3 bg-white/70 rounded-lg px-4 py-2 border border-gray-200/60">
+            <span className="w-6 text-sm font-semibold text-gray-500">{String.fromCharCode(65 + index)}</span>
+            <select
+              value={settings.algorithm}
+              onChange={(e) => updateConfiguration(index, { algorithm: e.target.value as AlgorithmId })}
+              className="border border-gray-300 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {RANKING_ALGORITHMS.map(({ id, name }) => (
+                <option key={id} value={id}>{name}</option>
+              ))}
+            </select>
+            {settings.algorithm === 'pagerank' && (
+              <>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <span>Damping:</span>
+                  <input
+                    type="number"
+                    min={MIN_DAMPING_FACTOR}
+                    max={MAX_DAMPING_FACTOR}
+                    step="0.05"
+                    value={settings.dampingFactor}
+                    onChange={(e) => {
+                      const dampingFactor = RankingAlgorithms.parseDampingFactor(e.target.value);
+                      if (dampingFactor !== null) updateConfiguration(index, { dampingFactor });
+                    }}
+                    className="border border-gray-300 rounded-lg px-2 py-1 w-20 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={settings.weighted}
+                    onChange={(e) => updateConfiguration(index, { weighted: e.target.checked })}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Weighted</span>
+                </label>
+              </>
+            )}
+            {index === 0 && <span className="text-xs text-gray-500">Baseline</span>}
+            {configurations.length > 2 && (
+              <button
+                onClick={() => setConfigurations(configurations.filter((_, i) => i !== index))}
+                className="ml-auto p-1 text-gray-400 hover:text-red-600"
+                aria-label="Remove configuration"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            )}
+          </div>
+        ))}
+        {configurations.length < MAX_CONFIGURATIONS && (
+          <button
+            onClick={addConfiguration}
+            className="flex items-center px-3 py-1 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add configuration
+          </button>
+        )}
+        {comparison.progress && <AnalysisProgressBar progress={comparison.progress} />}
+        {comparison.error && <p className="text-sm text-red-600">Comparison failed: {comparison.error}</p>}
+      </div>
+
+      {/* Rank correlation */}
+      <div>
+        <h4 className="font-medium text-gray-900 mb-2">Rank Correlation (Kendall τ / Spearman ρ)</h4>
+        <div className="overflow-x-auto">
+          <table className="text-sm">
+            <thead>
+              <tr>
+                <th />
+                {runs.map((_, index) => (
+                  <th key={index} className="px-4 py-1 font-semibold text-gray-700">{String.fromCharCode(65 + index)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map((run, row) => (
+                <tr key={row}>
+                  <th className="pr-4 py-1 text-left font-semibold text-gray-700" title={run.label}>
+                    {String.fromCharCode(65 + row)}
+                  </th>
+                  {runs.map((_, column) => {
+                    const value = correlation(row, column);
+                    return (
+                      <td key={column} className="px-4 py-1 font-mono text-center text-gray-800">
+                        {value ? `${value.kendall.toFixed(3)} / ${value.spearman.toFixed(3)}` : '—'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Rank deltas */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200/50">
+              <th className="text-left py-2 px-3 font-semibold text-gray-900">Course</th>
+              {runs.map((run, index) => (
+                <th key={index} className="text-right py-2 px-3 font-semibold text-gray-900" title={run.label}>
+                  {String.fromCharCode(65 + index)}: {run.label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(result => (
+              <tr key={result.courseId} className="border-b border-gray-100/50 hover:bg-white/40">
+                <td className="py-2 px-3">
+                  <div className="font-medium text-gray-900">{courseMap.get(result.courseId)?.name ?? result.courseId}</div>
+                  <div className="font-mono text-xs text-gray-500">{result.courseId}</div>
+                </td>
+                {runs.map((run, index) => {
+                  const rank = run.ranks.get(result.courseId)!;
+                  return (
+                    <td key={index} className="py-2 px-3 text-right font-mono">
+                      <span className="text-gray-900">#{rank}</span>
+                      {index > 0 && <span className="ml-2 text-xs">{renderDelta(result.rank - rank)}</span>}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {baseline && baseline.results.length > rowLimit && (
+          <button
+            onClick={() => setShowAll(!showAll)}
+            className="mt-2 text-sm text-blue-600 hover:underline"
+          >
+            {showAll ? `Show top ${rowLimit} only` : `Show all ${baseline.results.length} courses`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,50 @@
+// Residual-per-iteration sparkline for the power iteration
+
+import React from 'react';
+
+interface ConvergenceChartProps {
+  residualHistory: number[];
+  tolerance: number;
+  width?: number;
+  height?: number;
+}
+
+export const ConvergenceChart: React.FC<ConvergenceChartProps> = ({
+  residualHistory,
+  tolerance,
+  width = 280,
+  height = 80
+}) => {
+  if (residualHistory.length === 0) return null;
+
+  // Residuals shrink geometrically, so plot them on a log scale
+  const logValues = residualHistory.map(value => Math.log10(Math.max(value, 1e-16)));
+  const logTolerance = Math.log10(tolerance);
+  const maxLog = Math.max(...logValues, logTolerance);
+  const minLog = Math.min(...logValues, logTolerance);
+  const range = maxLog - minLog || 1;
+  const padding = 4;
+
+  const toX = (index: number) =>
+    padding + (residualHistory.length > 1 ? index / (residualHistory.length - 1) : 0.5) * (width - 2 * padding);
+  const toY = (logValue: number) => padding + ((maxLog - logValue) / range) * (height - 2 * padding);
+
+  const points = logValues.map((value, index) => `${toX(index)},${toY(value)}`).join(' ');
+  const toleranceY = toY(logTolerance);
+
+  return (
+    <svg width={width} height={height} className="bg-white/70 rounded border border-gray-200">
+      <line
+        x1={padding}
+        x2={width - padding}
+        y1={toleranceY}
+        y2={toleranceY}
+        stroke="#10B981"
+        strokeDasharray="4 3"
+        strokeWidth={1}
+      />
+      <polyline points={points} fill="none" stroke="#6366F1" strokeWidth={2} />
+      <title>Residual per iteration (log scale); dashed line marks the tolerance</title>
+    </svg>
+  );
+};
@@ -1,264 +1,357 @@
-import React, { useRef, useEffect } from 'react';
-import { Course, Prerequisite, PageRankResult } from '../types/Course';
+import React, { useRef, useEffect, useMemo, useState, useCallback } from 'react';
+import { ZoomIn, ZoomOut, Maximize2, Download } from 'lucide-react';
+import { CourseNode, GraphData } from '../types/Course';
+import { GraphLayout, LayoutMode } from '../types/Layout';
+import { PrerequisiteCycle } from '../algorithms/CycleDetection';
+import { CourseClosure } from '../algorithms/Closure';
+import { DiffHighlight } from '../algorithms/CurriculumDiff';
+import { GraphAnalysis } from '../algorithms/GraphAnalysis';
+import { GraphRenderer, GraphScene, ViewTransform } from '../utils/graphRenderer';
+import { GraphExport } from '../utils/graphExport';
+import { FileDownload } from '../utils/download';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+import { LayoutTaskInput } from '../workers/analysisTasks';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
 
 interface CourseGraphProps {
-  courses: Course[];
-  prerequisites: Prerequisite[];
-  pageRankResults: PageRankResult[];
+  graph: GraphData;
+  highlightedCycles?: PrerequisiteCycle[];
+  scoreLabel?: string;
+  formatScore?: (score: number) => string;
+  selectedCourseId?: string | null;
+  onSelectCourse?: (courseId: string | null) => void;
+  layoutMode?: LayoutMode;
+  /** When set, only the focused course and its closures are drawn at full strength */
+  focus?: CourseClosure | null;
+  /** Added and removed courses and edges to mark, when showing a curriculum diff */
+  diff?: DiffHighlight | null;
+  /** File name, without extension, for image and DOT exports */
+  exportFileName?: string;
 }
 
-export const CourseGraph: React.FC<CourseGraphProps> = ({ 
-  courses, 
-  prerequisites, 
-  pageRankResults 
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 5;
+const MIN_HEIGHT = 500;
+const MAX_HEIGHT = 800;
+// Pointer travel (in pixels) below which a press counts as a click rather than a drag
+const DRAG_THRESHOLD = 3;
+
+const EMPTY_LAYOUT: GraphLayout = { positions: new Map(), edgeRoutes: new Map(), width: 0, height: 0 };
+
+export const CourseGraph: React.FC<CourseGraphProps> = ({
+  graph,
+  highlightedCycles = [],
+  scoreLabel = 'PageRank Score',
+  formatScore = (score: number) => score.toFixed(3),
+  selectedCourseId = null,
+  onSelectCourse,
+  layoutMode = 'layered',
+  focus = null,
+  diff = null,
+  exportFileName = 'course-graph'
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; view: ViewTransform; moved: boolean } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<ViewTransform>({ x: 0, y: 0, scale: 1 });
+  const [hover, setHover] = useState<{ courseId: string; x: number; y: number } | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  // Track the rendered size of the canvas
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect;
+      setSize({ width, height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  // The layout only depends on which courses and edges exist, not on scores:
+  // re-ranking keeps the same signature, so the layout and viewport are kept
+  const topology = useMemo(() => JSON.stringify({
+    // Rank order changes with every score; layouts depend on input order, so sort by ID
+    courseIds: graph.nodes.map(node => node.id).sort(),
+    prerequisites: graph.edges.map(GraphAnalysis.toPrerequisite)
+  }), [graph]);
+
+  // Position nodes in the analysis worker when the topology or layout mode changes;
+  // until then the previous layout is drawn and courses it lacks are skipped
+  const layoutTask = useMemo(() => ({
+    type: 'layout' as const,
+    input: { mode: layoutMode, ...(JSON.parse(topology) as Omit<LayoutTaskInput, 'mode'>) }
+  }), [topology, layoutMode]);
+  const layoutState = useAnalysisTask(layoutTask);
+  const layout = layoutState.result ?? EMPTY_LAYOUT;
+
+  const nodeStyles = useMemo(() => GraphRenderer.nodeStyles(graph), [graph]);
+
+  const nodeById = useMemo(() => new Map<string, CourseNode>(graph.nodes.map(node => [node.id, node])), [graph]);
+
+  // Scale the whole layout into the canvas, never enlarging it beyond its natural size
+  const fitView = useCallback((): ViewTransform => {
+    if (size.width === 0 || layout.width === 0 || layout.height === 0) return { x: 0, y: 0, scale: 1 };
+    const scale = Math.max(Math.min(1, size.width / layout.width, size.height / layout.height), MIN_SCALE);
+    return {
+      scale,
+      x: (size.width - layout.width * scale) / 2,
+      y: (size.height - layout.height * scale) / 2
+    };
+  }, [layout, size]);
+
+  // Start from the fitted view whenever a new layout arrives or the canvas size
+  // changes; re-ranking alone keeps the layout, and so the user's pan and zoom
+  useEffect(() => {
+    setView(fitView());
+  }, [fitView]);
 
+  // Wheel zoom around the cursor; registered natively so the page does not scroll
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const pointerX = event.clientX - rect.left;
+      const pointerY = event.clientY - rect.top;
+      const factor = Math.exp(-event.deltaY * 0.0015);
+      setView(current => {
+        const scale = Math.min(Math.max(current.scale * factor, MIN_SCALE), MAX_SCALE);
+        const ratio = scale / current.scale;
+        return {
+          scale,
+          x: pointerX - (pointerX - current.x) * ratio,
+          y: pointerY - (pointerY - current.y) * ratio
+        };
+      });
+    };
+    canvas.addEventListener('wheel', handleWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const scene = useMemo<GraphScene>(() => ({
+    graph,
+    layout,
+    nodeStyles,
+    highlightedCycles,
+    selectedCourseId,
+    hoveredCourseId: hover?.courseId ?? null,
+    focus,
+    diff,
+    scoreLabel,
+    formatScore
+  }), [graph, layout, nodeStyles, highlightedCycles, selectedCourseId, hover, focus, diff, scoreLabel, formatScore]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || size.width === 0) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
     // Set canvas size
-    const rect = canvas.getBoundingClientRect();
-    canvas.width = rect.width * devicePixelRatio;
-    canvas.height = rect.height * devicePixelRatio;
-    ctx.scale(devicePixelRatio, devicePixelRatio);
+    canvas.width = size.width * devicePixelRatio;
+    canvas.height = size.height * devicePixelRatio;
+    ctx.setTransform(devicePixelRatio, 0, 0, devicePixelRatio, 0, 0);
 
     // Clear canvas
-    ctx.clearRect(0, 0, rect.width, rect.height);
-
-    // Create PageRank score map
-    const scoreMap = new Map<string, number>();
-    pageRankResults.forEach(result => {
-      scoreMap.set(result.courseId, result.score);
+    ctx.clearRect(0, 0, size.width, size.height);
+
+    GraphRenderer.draw(ctx, scene, view);
+  }, [scene, size, view]);
+
+  /**
+   * Find the node under a point given in canvas pixels
+   */
+  const hitTest = (canvasX: number, canvasY: number): string | null => {
+    const x = (canvasX - view.x) / view.scale;
+    const y = (canvasY - view.y) / view.scale;
+    let hit: string | null = null;
+    // Later nodes are drawn on top, so the last match wins; a stale layout may
+    // still place courses that are no longer in the graph, as in drawing
+    layout.positions.forEach((pos, courseId) => {
+      const style = nodeStyles.get(courseId);
+      if (style && Math.hypot(pos.x - x, pos.y - y) <= style.radius) hit = courseId;
     });
-
-    // Calculate hierarchical positions based on prerequisite levels
-    const levels = new Map<string, number>();
-    const visited = new Set<string>();
-    
-    // Calculate depth for each course (foundational courses have lower depth)
-    const calculateDepth = (courseId: string): number => {
-      if (visited.has(courseId)) return levels.get(courseId) || 0;
-      visited.add(courseId);
-      
-      const prereqs = prerequisites.filter(p => p.course === courseId);
-      if (prereqs.length === 0) {
-        levels.set(courseId, 0);
-        return 0;
+    return hit;
+  };
+
+  const pointerPosition = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = pointerPosition(event);
+    dragRef.current = { startX: x, startY: y, view, moved: false };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const { x, y } = pointerPosition(event);
+    const drag = dragRef.current;
+
+    if (drag) {
+      const dx = x - drag.startX;
+      const dy = y - drag.startY;
+      if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      if (!drag.moved) {
+        drag.moved = true;
+        setDragging(true);
+        setHover(null);
       }
-      
-      const maxPrereqDepth = Math.max(...prereqs.map(p => calculateDepth(p.prerequisite)));
-      const depth = maxPrereqDepth + 1;
-      levels.set(courseId, depth);
-      return depth;
-    };
-
-    courses.forEach(course => calculateDepth(course.id));
-    
-    const maxLevel = Math.max(...Array.from(levels.values()));
-    const levelGroups = new Map<number, string[]>();
-    
-    // Group courses by level
-    for (let i = 0; i <= maxLevel; i++) {
-      levelGroups.set(i, []);
+      setView({ ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy });
+      return;
     }
-    
-    levels.forEach((level, courseId) => {
-      levelGroups.get(level)!.push(courseId);
-    });
-
-    // Position nodes in a hierarchical layout
-    const nodePositions = new Map<string, { x: number; y: number }>();
-    const padding = 80;
-    const levelHeight = (rect.height - 2 * padding) / Math.max(maxLevel, 1);
-    
-    levelGroups.forEach((coursesInLevel, level) => {
-      const y = padding + level * levelHeight;
-      const levelWidth = rect.width - 2 * padding;
-      const spacing = coursesInLevel.length > 1 ? levelWidth / (coursesInLevel.length - 1) : 0;
-      
-      coursesInLevel.forEach((courseId, index) => {
-        const x = coursesInLevel.length === 1 
-          ? rect.width / 2 
-          : padding + index * spacing;
-        nodePositions.set(courseId, { x, y });
-      });
-    });
 
-    // Draw edges first (so they appear behind nodes)
-    ctx.strokeStyle = '#94A3B8';
-    ctx.lineWidth = 2;
-    ctx.globalAlpha = 0.7;
-
-    prerequisites.forEach(({ prerequisite, course }) => {
-      const startPos = nodePositions.get(prerequisite);
-      const endPos = nodePositions.get(course);
-      
-      if (startPos && endPos) {
-        // Draw curved edge
-        const midX = (startPos.x + endPos.x) / 2;
-        const midY = (startPos.y + endPos.y) / 2;
-        const controlX = midX + (endPos.x - startPos.x) * 0.1;
-        const controlY = midY - Math.abs(endPos.y - startPos.y) * 0.3;
-
-        ctx.beginPath();
-        ctx.moveTo(startPos.x, startPos.y);
-        ctx.quadraticCurveTo(controlX, controlY, endPos.x, endPos.y);
-        ctx.stroke();
-
-        // Draw arrow
-        const angle = Math.atan2(endPos.y - controlY, endPos.x - controlX);
-        const arrowLength = 12;
-        const arrowAngle = Math.PI / 6;
-
-        const arrowX = endPos.x - 25 * Math.cos(angle);
-        const arrowY = endPos.y - 25 * Math.sin(angle);
-
-        ctx.beginPath();
-        ctx.moveTo(arrowX, arrowY);
-        ctx.lineTo(
-          arrowX - arrowLength * Math.cos(angle - arrowAngle),
-          arrowY - arrowLength * Math.sin(angle - arrowAngle)
-        );
-        ctx.moveTo(arrowX, arrowY);
-        ctx.lineTo(
-          arrowX - arrowLength * Math.cos(angle + arrowAngle),
-          arrowY - arrowLength * Math.sin(angle + arrowAngle)
-        );
-        ctx.stroke();
-      }
-    });
-
-    // Reset alpha for nodes
-    ctx.globalAlpha = 1;
-
-    // Draw nodes
-    const maxScore = Math.max(...Array.from(scoreMap.values()));
-    const minScore = Math.min(...Array.from(scoreMap.values()));
-    const scoreRange = maxScore - minScore;
-
-    courses.forEach(course => {
-      const pos = nodePositions.get(course.id);
-      if (!pos) return;
-
-      const score = scoreMap.get(course.id) || 0;
-      const normalizedScore = scoreRange > 0 ? (score - minScore) / scoreRange : 0.5;
-      
-      // Node size based on PageRank score
-      const baseRadius = 20;
-      const radius = baseRadius + normalizedScore * 15;
-
-      // Enhanced color scheme for foundational courses
-      const hue = 220 - normalizedScore * 60; // Blue to purple gradient
-      const saturation = 70 + normalizedScore * 20;
-      const lightness = 45 + normalizedScore * 10;
-
-      // Gradient fill
-      const gradient = ctx.createRadialGradient(pos.x, pos.y, 0, pos.x, pos.y, radius);
-      gradient.addColorStop(0, `hsl(${hue}, ${saturation}%, ${lightness + 15}%)`);
-      gradient.addColorStop(1, `hsl(${hue}, ${saturation}%, ${lightness}%)`);
-
-      ctx.fillStyle = gradient;
-      ctx.beginPath();
-      ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI);
-      ctx.fill();
-
-      // Enhanced border with shadow effect
-      ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
-      ctx.shadowBlur = 4;
-      ctx.shadowOffsetX = 2;
-      ctx.shadowOffsetY = 2;
-      
-      ctx.strokeStyle = '#FFFFFF';
-      ctx.lineWidth = 3;
-      ctx.stroke();
-      
-      // Reset shadow
-      ctx.shadowColor = 'transparent';
-      ctx.shadowBlur = 0;
-      ctx.shadowOffsetX = 0;
-      ctx.shadowOffsetY = 0;
-
-      // Course ID text with better typography
-      ctx.fillStyle = '#FFFFFF';
-      ctx.font = 'bold 12px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      
-      const text = course.id.length > 10 ? course.id.substring(0, 8) + '...' : course.id;
-      ctx.fillText(text, pos.x, pos.y);
-
-      // Score text below node
-      ctx.fillStyle = '#64748B';
-      ctx.font = '10px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-      ctx.fillText(score.toFixed(3), pos.x, pos.y + radius + 15);
+    const courseId = hitTest(x, y);
+    setHover(courseId ? { courseId, x, y } : null);
+  };
+
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    setDragging(false);
+    if (drag && !drag.moved && onSelectCourse) {
+      const { x, y } = pointerPosition(event);
+      const courseId = hitTest(x, y);
+      // Clicking the selected course or empty space clears the selection
+      onSelectCourse(courseId === selectedCourseId ? null : courseId);
+    }
+  };
+
+  const handleMouseLeave = () => {
+    dragRef.current = null;
+    setDragging(false);
+    setHover(null);
+  };
+
+  const zoomBy = (factor: number) => {
+    setView(current => {
+      const scale = Math.min(Math.max(current.scale * factor, MIN_SCALE), MAX_SCALE);
+      const ratio = scale / current.scale;
+      const centerX = size.width / 2;
+      const centerY = size.height / 2;
+      return {
+        scale,
+        x: centerX - (centerX - current.x) * ratio,
+        y: centerY - (centerY - current.y) * ratio
+      };
     });
+  };
+
+  const handleExport = (format: 'svg' | 'png' | 'dot') => {
+    setShowExportMenu(false);
+    setExportError(null);
+    if (format === 'svg') {
+      FileDownload.text(GraphExport.toSVG(scene), `${exportFileName}.svg`, 'image/svg+xml');
+    } else if (format === 'dot') {
+      FileDownload.text(GraphExport.toDOT(graph, { scoreLabel, formatScore }), `${exportFileName}.dot`, 'text/vnd.graphviz');
+    } else {
+      GraphExport.toPNG(scene)
+        .then(blob => FileDownload.blob(blob, `${exportFileName}.png`))
+        .catch((error: Error) => setExportError(error.message));
+    }
+  };
 
-    // Enhanced legend
-    const legendX = 20;
-    const legendY = 20;
-    const legendWidth = 220;
-    const legendHeight = 100;
-
-    // Legend background with gradient
-    const legendGradient = ctx.createLinearGradient(legendX, legendY, legendX, legendY + legendHeight);
-    legendGradient.addColorStop(0, 'rgba(255, 255, 255, 0.95)');
-    legendGradient.addColorStop(1, 'rgba(248, 250, 252, 0.95)');
-    
-    ctx.fillStyle = legendGradient;
-    ctx.fillRect(legendX, legendY, legendWidth, legendHeight);
-    
-    ctx.strokeStyle = '#E2E8F0';
-    ctx.lineWidth = 1;
-    ctx.strokeRect(legendX, legendY, legendWidth, legendHeight);
-
-    // Legend title
-    ctx.fillStyle = '#1E293B';
-    ctx.font = 'bold 14px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-    ctx.textAlign = 'left';
-    ctx.fillText('PageRank Scores', legendX + 15, legendY + 25);
-
-    // Legend description
-    ctx.font = '11px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-    ctx.fillStyle = '#64748B';
-    ctx.fillText('Higher scores = More foundational', legendX + 15, legendY + 45);
-
-    // Legend scale values
-    ctx.font = '10px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
-    ctx.fillText(`High: ${maxScore.toFixed(4)}`, legendX + 15, legendY + 65);
-    ctx.fillText(`Low: ${minScore.toFixed(4)}`, legendX + 15, legendY + 80);
-
-    // Enhanced color scale
-    const scaleWidth = 80;
-    const scaleHeight = 12;
-    const scaleX = legendX + 130;
-    const scaleY = legendY + 60;
-
-    const scaleGradient = ctx.createLinearGradient(scaleX, 0, scaleX + scaleWidth, 0);
-    scaleGradient.addColorStop(0, 'hsl(160, 70%, 55%)');
-    scaleGradient.addColorStop(0.5, 'hsl(200, 70%, 55%)');
-    scaleGradient.addColorStop(1, 'hsl(240, 70%, 55%)');
-
-    ctx.fillStyle = scaleGradient;
-    ctx.fillRect(scaleX, scaleY, scaleWidth, scaleHeight);
-    
-    ctx.strokeStyle = '#CBD5E1';
-    ctx.lineWidth = 1;
-    ctx.strokeRect(scaleX, scaleY, scaleWidth, scaleHeight);
-
-  }, [courses, prerequisites, pageRankResults]);
+  const hoveredCourse = hover ? nodeById.get(hover.courseId) : undefined;
+  const cursor = dragging ? 'cursor-grabbing' : hover ? 'cursor-pointer' : 'cursor-grab';
 
   return (
-    <div className="w-full h-[500px] bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 rounded-xl border border-slate-200/60 overflow-hidden shadow-inner">
+    <div
+      className="relative w-full bg-gradient-to-br from-slate-50 via-blue-50 to-indigo-50 rounded-xl border border-slate-200/60 overflow-hidden shadow-inner"
+      style={{ height: Math.min(Math.max(layout.height, MIN_HEIGHT), MAX_HEIGHT) }}
+    >
+      {layoutState.progress && (
+        <AnalysisProgressBar
+          progress={layoutState.progress}
+          className="absolute top-4 left-1/2 -translate-x-1/2 w-64 z-10 bg-white/90 rounded-lg px-3 py-2 shadow-sm"
+        />
+      )}
+      {layoutState.error && (
+        <p className="absolute top-4 left-1/2 -translate-x-1/2 z-10 bg-white/90 rounded-lg px-3 py-2 text-sm text-red-600 shadow-sm">
+          Layout failed: {layoutState.error}
+        </p>
+      )}
       <canvas
         ref={canvasRef}
-        className="w-full h-full cursor-pointer"
+        className={`w-full h-full ${cursor}`}
         style={{ width: '100%', height: '100%' }}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={handleMouseUp}
+        onMouseLeave={handleMouseLeave}
       />
+
+      {/* Zoom controls */}
+      <div className="absolute top-4 right-4 flex flex-col space-y-1 bg-white/90 rounded-lg border border-slate-200 shadow-sm p-1">
+        <button onClick={() => zoomBy(1.25)} className="p-1 rounded hover:bg-slate-100" title="Zoom in">
+          <ZoomIn className="w-4 h-4 text-slate-600" />
+        </button>
+        <button onClick={() => zoomBy(0.8)} className="p-1 rounded hover:bg-slate-100" title="Zoom out">
+          <ZoomOut className="w-4 h-4 text-slate-600" />
+        </button>
+        <button onClick={() => setView(fitView())} className="p-1 rounded hover:bg-slate-100" title="Fit to view">
+          <Maximize2 className="w-4 h-4 text-slate-600" />
+        </button>
+        <button
+          onClick={() => setShowExportMenu(!showExportMenu)}
+          className="p-1 rounded hover:bg-slate-100"
+          title="Export graph"
+        >
+          <Download className="w-4 h-4 text-slate-600" />
+        </button>
+      </div>
+
+      {/* Export menu */}
+      {showExportMenu && (
+        <div className="absolute top-4 right-14 w-48 bg-white rounded-lg border border-slate-200 shadow-lg py-1 text-sm">
+          {([
+            ['svg', 'SVG image'],
+            ['png', 'PNG image'],
+            ['dot', 'Graphviz DOT']
+          ] as const).map(([format, label]) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="w-full text-left px-3 py-2 hover:bg-slate-50 text-gray-700"
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+      {exportError && (
+        <div className="absolute bottom-4 right-4 px-3 py-2 bg-red-50 border border-red-200 rounded-lg text-xs text-red-700">
+          Export failed: {exportError}
+        </div>
+      )}
+
+      {/* Hover tooltip */}
+      {hover && hoveredCourse && (
+        <div
+          className="absolute pointer-events-none max-w-xs bg-white/95 rounded-lg border border-slate-200 shadow-lg px-3 py-2 text-xs"
+          style={{
+            left: Math.min(hover.x + 14, size.width - 260),
+            top: Math.min(hover.y + 14, size.height - 110)
+          }}
+        >
+          <div className="font-semibold text-gray-900 text-sm">{hoveredCourse.name}</div>
+          <div className="font-mono text-gray-500 mb-1">
+            {hoveredCourse.id}
+            {hoveredCourse.credits !== undefined && ` · ${hoveredCourse.credits} credits`}
+          </div>
+          <div className="text-gray-700">
+            Rank #{hoveredCourse.rank} · {scoreLabel}: <span className="font-mono">{formatScore(hoveredCourse.score)}</span>
+          </div>
+          {hoveredCourse.description && (
+            <div className="text-gray-500 mt-1 line-clamp-2">{hoveredCourse.description}</div>
+          )}
+        </div>
+      )}
     </div>
   );
-};
\ No newline at end of file
+};
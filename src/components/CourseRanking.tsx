@@ -1,76 +1,176 @@
-import React, { useState, useMemo } from 'react';
-import { Course, Prerequisite, PageRankResult } from '../types/Course';
-import { PageRankCalculator } from '../algorithms/PageRank';
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import { Course, Prerequisite } from '../types/Course';
+import { LayoutMode } from '../types/Layout';
+import { AlgorithmId } from '../algorithms/RankingAlgorithm';
+import {
+  DEFAULT_RANKING_SETTINGS,
+  MAX_DAMPING_FACTOR,
+  MIN_DAMPING_FACTOR,
+  RANKING_ALGORITHMS,
+  RankingAlgorithms,
+  RankingSettings
+} from '../algorithms/registry';
+import { GraphAnalysis } from '../algorithms/GraphAnalysis';
+import { PrerequisiteClosure } from '../algorithms/Closure';
 import { CourseGraph } from './CourseGraph';
+import { CyclePanel } from './CyclePanel';
+import { ConvergenceChart } from './ConvergenceChart';
+import { TargetCoursePicker } from './TargetCoursePicker';
+import { ComparisonView } from './ComparisonView';
+import { FocusPanel } from './FocusPanel';
+import { ExportDialog } from './ExportDialog';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+import { RankingViewSettings } from '../utils/datasetStore';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+import { RankingTaskResult } from '../workers/analysisTasks';
 import { 
   Trophy, 
-  BookOpen, 
-  ArrowRight, 
   Download, 
   BarChart3,
   Network,
   Settings,
-  Filter
+  GitCompare,
+  Crosshair
 } from 'lucide-react';
 
 interface CourseRankingProps {
   courses: Course[];
   prerequisites: Prerequisite[];
+  /** Settings to start from, e.g. restored for a saved dataset; missing ones use the defaults */
+  initialSettings?: Partial<RankingViewSettings> | null;
+  onSettingsChange?: (settings: RankingViewSettings) => void;
 }
 
-export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequisites }) => {
-  const [topN, setTopN] = useState(10);
-  const [showGraph, setShowGraph] = useState(true);
-  const [dampingFactor, setDampingFactor] = useState(0.85);
-  const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards');
-
-  // Calculate PageRank results
-  const { pageRankResults, topCourses, calculator } = useMemo(() => {
-    const calc = new PageRankCalculator(dampingFactor);
-    const results = calc.calculatePageRank(courses, prerequisites);
-    const top = calc.getTopFoundationalCourses(courses, prerequisites, topN);
-    
-    return {
-      pageRankResults: results,
-      topCourses: top,
-      calculator: calc
-    };
-  }, [courses, prerequisites, topN, dampingFactor]);
-
-  // Create course lookup map
-  const courseMap = useMemo(() => {
-    const map = new Map<string, Course>();
-    courses.forEach(course => map.set(course.id, course));
-    return map;
-  }, [courses]);
+const DEFAULT_VIEW_SETTINGS: RankingViewSettings = {
+  topN: 10,
+  showGraph: true,
+  algorithm: DEFAULT_RANKING_SETTINGS.algorithm,
+  dampingFactor: DEFAULT_RANKING_SETTINGS.dampingFactor,
+  weighted: DEFAULT_RANKING_SETTINGS.weighted,
+  targetCourses: DEFAULT_RANKING_SETTINGS.targetCourses,
+  viewMode: 'cards',
+  highlightCycles: false,
+  layoutMode: 'layered'
+};
+
+// Placeholder until the first ranking arrives from the worker
+const EMPTY_RANKING: RankingTaskResult = {
+  graph: { nodes: [], edges: [] },
+  globalRanks: null,
+  cycles: [],
+  rankedAt: new Date(0)
+};
+
+export const CourseRanking: React.FC<CourseRankingProps> = ({
+  courses,
+  prerequisites,
+  initialSettings,
+  onSettingsChange
+}) => {
+  const [initial] = useState(() => ({ ...DEFAULT_VIEW_SETTINGS, ...initialSettings }));
+  const [topN, setTopN] = useState(initial.topN);
+  const [showGraph, setShowGraph] = useState(initial.showGraph);
+  const [algorithmId, setAlgorithmId] = useState<AlgorithmId>(initial.algorithm);
+  const [dampingFactor, setDampingFactor] = useState(initial.dampingFactor);
+  const [viewMode, setViewMode] = useState<'cards' | 'table'>(initial.viewMode);
+  const [highlightCycles, setHighlightCycles] = useState(initial.highlightCycles);
+  const [weighted, setWeighted] = useState(initial.weighted);
+  const [targetCourses, setTargetCourses] = useState<string[]>(initial.targetCourses);
+  const [showComparison, setShowComparison] = useState(false);
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
+  const [layoutMode, setLayoutMode] = useState<LayoutMode>(initial.layoutMode);
+  const [focusMode, setFocusMode] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const rankingListRef = useRef<HTMLDivElement>(null);
+
+  // Ignore targets that are no longer part of the dataset
+  const activeTargets = useMemo(
+    () => targetCourses.filter(id => courses.some(course => course.id === id)),
+    [targetCourses, courses]
+  );
+  const isPageRank = algorithmId === 'pagerank';
+  const isPersonalized = isPageRank && activeTargets.length > 0;
+
+  const settings = useMemo<RankingSettings>(
+    () => ({
+      algorithm: algorithmId,
+      dampingFactor,
+      weighted,
+      targetCourses: isPageRank ? activeTargets : []
+    }),
+    [algorithmId, dampingFactor, weighted, isPageRank, activeTargets]
+  );
+  const algorithm = useMemo(() => RankingAlgorithms.create(settings), [settings]);
+
+  // Report the settings worth restoring whenever one of them changes
+  useEffect(() => {
+    onSettingsChange?.({
+      topN,
+      showGraph,
+      algorithm: algorithmId,
+      dampingFactor,
+      weighted,
+      targetCourses,
+      viewMode,
+      highlightCycles,
+      layoutMode
+    });
+  }, [onSettingsChange, topN, showGraph, algorithmId, dampingFactor, weighted, targetCourses, viewMode, highlightCycles, layoutMode]);
+
+  const formatScore = useCallback((score: number) => algorithm.formatScore(score), [algorithm]);
+
+  // Rank courses in the analysis worker; nodes come back ordered by rank. The
+  // previous ranking stays on screen until the new one is ready.
+  const rankingTask = useMemo(
+    () => ({ type: 'rank' as const, input: { settings, courses, prerequisites } }),
+    [settings, courses, prerequisites]
+  );
+  const ranking = useAnalysisTask(rankingTask);
+  const { graph, convergence, rankedAt, globalRanks, cycles } = ranking.result ?? EMPTY_RANKING;
+  const topCourses = useMemo(() => graph.nodes.slice(0, topN), [graph, topN]);
+
+  // Selection shared by the graph, cards and table; cleared if the course disappears
+  const selectedCourse = graph.nodes.find(node => node.id === selectedCourseId) ?? null;
+  const selectedInList = topCourses.some(course => course.id === selectedCourseId);
+
+  const nodesById = useMemo(() => new Map(graph.nodes.map(node => [node.id, node])), [graph]);
+
+  // Prerequisite and dependent closures of the selected course in focus mode
+  const closure = useMemo(() => {
+    if (!focusMode || !selectedCourse) return null;
+    return PrerequisiteClosure.compute(
+      graph.nodes.map(node => node.id),
+      graph.edges.map(GraphAnalysis.toPrerequisite),
+      selectedCourse.id
+    );
+  }, [focusMode, selectedCourse, graph]);
+
+  const isOutOfFocus = (courseId: string) =>
+    closure !== null &&
+    courseId !== closure.courseId &&
+    !closure.ancestors.includes(courseId) &&
+    !closure.descendants.includes(courseId);
+
+  const toggleSelection = (courseId: string) => {
+    setSelectedCourseId(current => (current === courseId ? null : courseId));
+  };
+
+  // Bring the selected course into view in the card or table list
+  useEffect(() => {
+    if (!selectedCourseId) return;
+    const element = rankingListRef.current?.querySelector(`[data-course-id="${CSS.escape(selectedCourseId)}"]`);
+    element?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedCourseId, viewMode]);
 
   // Calculate statistics
   const stats = useMemo(() => {
-    const scores = pageRankResults.map(r => r.score);
+    const scores = graph.nodes.map(node => node.score);
     const avgScore = scores.reduce((sum, score) => sum + score, 0) / scores.length;
     const maxScore = Math.max(...scores);
     const minScore = Math.min(...scores);
     
     return { avgScore, maxScore, minScore };
-  }, [pageRankResults]);
-
-  const handleExport = () => {
-    const csvContent = 'Course ID,Course Name,Rank,PageRank Score\n' +
-      pageRankResults.map(result => {
-        const course = courseMap.get(result.courseId);
-        return `${result.courseId},"${course?.name || result.courseId}",${result.rank},${result.score.toFixed(6)}`;
-      }).join('\n');
-    
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'course-rankings.csv';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
+  }, [graph]);
 
   const getRankColor = (rank: number) => {
     if (rank === 1) return 'text-yellow-600 bg-yellow-50 border-yellow-200';
@@ -80,18 +180,59 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
     return 'text-gray-500 bg-gray-50 border-gray-200';
   };
 
+  const renderRankDelta = (courseId: string, rank: number) => {
+    const globalRank = globalRanks?.get(courseId);
+    if (globalRank === undefined) return null;
+    const delta = globalRank - rank;
+    const color = delta > 0 ? 'text-green-600' : delta < 0 ? 'text-red-600' : 'text-gray-500';
+    return (
+      <span className={`text-xs font-medium ${color}`} title={`Global rank #${globalRank}`}>
+        {delta > 0 ? `▲${delta}` : delta < 0 ? `▼${-delta}` : '='} vs global #{globalRank}
+      </span>
+    );
+  };
+
+  const getScorePercent = (score: number) => {
+    return stats.maxScore > 0 ? (score / stats.maxScore) * 100 : 0;
+  };
+
   const getScoreBarWidth = (score: number) => {
-    return Math.max((score / stats.maxScore) * 100, 5);
+    return Math.max(getScorePercent(score), 5);
   };
 
+  if (!ranking.result) {
+    return (
+      <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+        {ranking.error ? (
+          <p className="text-sm text-red-600">Ranking failed: {ranking.error}</p>
+        ) : (
+          <AnalysisProgressBar progress={ranking.progress ?? { stage: 'Starting', fraction: 0 }} />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Controls */}
       <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
         <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
-          <div className="flex items-center space-x-6">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
             <div className="flex items-center space-x-2">
               <Settings className="w-5 h-5 text-gray-500" />
+              <label className="text-sm font-medium text-gray-700">Algorithm:</label>
+              <select
+                value={algorithmId}
+                onChange={(e) => setAlgorithmId(e.target.value as AlgorithmId)}
+                className="border border-gray-300 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                {RANKING_ALGORITHMS.map(({ id, name }) => (
+                  <option key={id} value={id}>{name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex items-center space-x-2">
               <label className="text-sm font-medium text-gray-700">Top N Courses:</label>
               <select
                 value={topN}
@@ -105,18 +246,35 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
               </select>
             </div>
             
-            <div className="flex items-center space-x-2">
-              <label className="text-sm font-medium text-gray-700">Damping Factor:</label>
-              <input
-                type="number"
-                min="0"
-                max="1"
-                step="0.05"
-                value={dampingFactor}
-                onChange={(e) => setDampingFactor(Number(e.target.value))}
-                className="border border-gray-300 rounded-lg px-3 py-1 w-20 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-              />
-            </div>
+            {isPageRank && (
+              <div className="flex items-center space-x-2">
+                <label className="text-sm font-medium text-gray-700">Damping Factor:</label>
+                <input
+                  type="number"
+                  min={MIN_DAMPING_FACTOR}
+                  max={MAX_DAMPING_FACTOR}
+                  step="0.05"
+                  value={dampingFactor}
+                  onChange={(e) => {
+                    const value = RankingAlgorithms.parseDampingFactor(e.target.value);
+                    if (value !== null) setDampingFactor(value);
+                  }}
+                  className="border border-gray-300 rounded-lg px-3 py-1 w-20 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            {isPageRank && (
+              <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={weighted}
+                  onChange={(e) => setWeighted(e.target.checked)}
+                  className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                />
+                <span>Weighted Edges</span>
+              </label>
+            )}
           </div>
 
           <div className="flex items-center space-x-3">
@@ -143,6 +301,30 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
               </button>
             </div>
             
+            <button
+              onClick={() => setFocusMode(!focusMode)}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                focusMode
+                  ? 'bg-amber-500 text-white hover:bg-amber-600'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              <Crosshair className="w-4 h-4 inline mr-2" />
+              Focus
+            </button>
+
+            <button
+              onClick={() => setShowComparison(!showComparison)}
+              className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
+                showComparison
+                  ? 'bg-indigo-600 text-white hover:bg-indigo-700'
+                  : 'bg-gray-200 text-gray-700 hover:bg-gray-300'
+              }`}
+            >
+              <GitCompare className="w-4 h-4 inline mr-2" />
+              Compare
+            </button>
+
             <button
               onClick={() => setShowGraph(!showGraph)}
               className={`px-4 py-2 rounded-lg font-medium transition-all duration-200 ${
@@ -155,24 +337,33 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
               {showGraph ? 'Hide' : 'Show'} Graph
             </button>
             
+            {/* The shown ranking may predate the current settings until the worker catches up */}
             <button
-              onClick={handleExport}
-              className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors duration-200"
+              onClick={() => setShowExportDialog(true)}
+              disabled={ranking.progress !== null}
+              title={ranking.progress ? 'Available once the ranking is up to date' : undefined}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed"
             >
               <Download className="w-4 h-4 inline mr-2" />
-              Export CSV
+              Export
             </button>
           </div>
         </div>
 
+        {isPageRank && (
+          <div className="mt-4">
+            <TargetCoursePicker courses={courses} selected={activeTargets} onChange={setTargetCourses} />
+          </div>
+        )}
+
         {/* Statistics */}
         <div className="grid grid-cols-3 gap-4 mt-6 pt-6 border-t border-gray-200/50">
           <div className="text-center">
-            <div className="text-2xl font-bold text-gray-900">{stats.maxScore.toFixed(4)}</div>
+            <div className="text-2xl font-bold text-gray-900">{formatScore(stats.maxScore)}</div>
             <div className="text-sm text-gray-600">Highest Score</div>
           </div>
           <div className="text-center">
-            <div className="text-2xl font-bold text-gray-900">{stats.avgScore.toFixed(4)}</div>
+            <div className="text-2xl font-bold text-gray-900">{formatScore(stats.avgScore)}</div>
             <div className="text-sm text-gray-600">Average Score</div>
           </div>
           <div className="text-center">
@@ -180,41 +371,135 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
             <div className="text-sm text-gray-600">Total Courses</div>
           </div>
         </div>
+
+        {ranking.progress && <AnalysisProgressBar progress={ranking.progress} className="mt-4" />}
+        {ranking.error && <p className="text-sm text-red-600 mt-4">Ranking failed: {ranking.error}</p>}
       </div>
 
+      {showExportDialog && !ranking.progress && (
+        <ExportDialog
+          algorithm={algorithm}
+          settings={settings}
+          nodes={graph.nodes}
+          convergence={convergence}
+          rankedAt={rankedAt}
+          courses={courses}
+          prerequisites={prerequisites}
+          topN={topN}
+          onClose={() => setShowExportDialog(false)}
+        />
+      )}
+
+      {/* Configuration Comparison */}
+      {showComparison && (
+        <ComparisonView
+          courses={courses}
+          prerequisites={prerequisites}
+          initialConfigurations={[
+            settings,
+            { ...settings, algorithm: 'pagerank', dampingFactor: settings.dampingFactor === 0.5 ? 0.85 : 0.5 }
+          ]}
+          rowLimit={topN}
+        />
+      )}
+
+      {/* Focus Mode */}
+      {focusMode && (
+        <FocusPanel
+          course={selectedCourse}
+          closure={closure}
+          nodesById={nodesById}
+          onSelectCourse={setSelectedCourseId}
+        />
+      )}
+
+      {/* Circular Prerequisites */}
+      <CyclePanel
+        cycles={cycles}
+        highlight={highlightCycles}
+        onHighlightChange={setHighlightCycles}
+      />
+
       {/* Graph Visualization */}
       {showGraph && (
         <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
-          <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
-            <Network className="w-5 h-5 mr-2" />
-            Course Dependency Graph
-          </h3>
-          <CourseGraph 
-            courses={courses} 
-            prerequisites={prerequisites} 
-            pageRankResults={pageRankResults}
+          <div className="flex items-center justify-between mb-4">
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Network className="w-5 h-5 mr-2" />
+              Course Dependency Graph
+            </h3>
+            <div className="flex items-center space-x-1 bg-gray-100 rounded-lg p-1">
+              {([['layered', 'Layered'], ['force', 'Force-Directed']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setLayoutMode(mode)}
+                  className={`px-3 py-1 rounded-md text-sm font-medium transition-colors ${
+                    layoutMode === mode
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <CourseGraph
+            graph={graph}
+            scoreLabel={algorithm.scoreLabel}
+            formatScore={formatScore}
+            highlightedCycles={highlightCycles ? cycles : undefined}
+            selectedCourseId={selectedCourse?.id ?? null}
+            onSelectCourse={setSelectedCourseId}
+            layoutMode={layoutMode}
+            focus={closure}
+            exportFileName={`course-graph-${algorithm.id}`}
           />
+          <p className="text-xs text-gray-500 mt-2">
+            Scroll to zoom, drag to pan, hover a course for details and click it to select.
+          </p>
         </div>
       )}
 
       {/* Course Rankings */}
-      <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+      <div ref={rankingListRef} className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
         <div className="flex items-center justify-between mb-6">
           <h3 className="text-lg font-semibold text-gray-900 flex items-center">
             <Trophy className="w-5 h-5 mr-2 text-yellow-600" />
             Top {topN} Foundational Courses
           </h3>
           <div className="text-sm text-gray-600">
-            Ranked by PageRank Algorithm
+            {isPersonalized
+              ? `Personalized PageRank for ${activeTargets.join(', ')}`
+              : `Ranked by ${algorithm.name}`}
           </div>
         </div>
 
+        {selectedCourse && !selectedInList && (
+          <div className="flex items-center justify-between mb-4 px-4 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm">
+            <span className="text-amber-800">
+              Selected <span className="font-mono">{selectedCourse.id}</span> ({selectedCourse.name}) is ranked
+              #{selectedCourse.rank} with a score of {formatScore(selectedCourse.score)}, outside the top {topN}.
+            </span>
+            <button
+              onClick={() => setSelectedCourseId(null)}
+              className="text-amber-700 hover:text-amber-900 font-medium"
+            >
+              Clear
+            </button>
+          </div>
+        )}
+
         {viewMode === 'cards' ? (
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-            {topCourses.map((course, index) => (
+            {topCourses.map((course) => (
               <div
                 key={course.id}
-                className="bg-white/80 rounded-lg p-4 border border-white/60 hover:shadow-lg transition-all duration-200 hover:-translate-y-1"
+                data-course-id={course.id}
+                onClick={() => toggleSelection(course.id)}
+                className={`bg-white/80 rounded-lg p-4 border cursor-pointer hover:shadow-lg transition-all duration-200 hover:-translate-y-1 ${
+                  course.id === selectedCourseId ? 'border-amber-400 ring-2 ring-amber-300' : 'border-white/60'
+                } ${isOutOfFocus(course.id) ? 'opacity-40' : ''}`}
               >
                 <div className="flex items-start justify-between mb-3">
                   <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getRankColor(course.rank)}`}>
@@ -222,25 +507,43 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
                     Rank #{course.rank}
                   </div>
                   <div className="text-right">
-                    <div className="text-xs text-gray-500">PageRank Score</div>
+                    <div className="text-xs text-gray-500">{algorithm.scoreLabel}</div>
                     <div className="text-sm font-mono font-semibold text-gray-900">
-                      {course.score.toFixed(4)}
+                      {formatScore(course.score)}
                     </div>
                   </div>
                 </div>
 
                 <div className="mb-3">
                   <h4 className="font-semibold text-gray-900 text-lg mb-1">{course.name}</h4>
-                  <p className="text-sm text-gray-600 mb-2">{course.id}</p>
+                  <p className="text-sm text-gray-600 mb-2">
+                    {course.id}
+                    {isPersonalized && <span className="ml-2">{renderRankDelta(course.id, course.rank)}</span>}
+                  </p>
                   {course.description && (
                     <p className="text-xs text-gray-500 line-clamp-2">{course.description}</p>
                   )}
                 </div>
 
+                <div className="grid grid-cols-2 gap-2 mb-3 text-xs">
+                  <div>
+                    <div className="text-gray-500">Prerequisites ({course.outDegree})</div>
+                    <div className="font-mono text-gray-700 truncate" title={course.prerequisites.join(', ')}>
+                      {course.prerequisites.length > 0 ? course.prerequisites.join(', ') : '—'}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-gray-500">Unlocks ({course.inDegree})</div>
+                    <div className="font-mono text-gray-700 truncate" title={course.dependents.join(', ')}>
+                      {course.dependents.length > 0 ? course.dependents.join(', ') : '—'}
+                    </div>
+                  </div>
+                </div>
+
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-xs text-gray-600">
                     <span>Foundation Score</span>
-                    <span>{((course.score / stats.maxScore) * 100).toFixed(1)}%</span>
+                    <span>{getScorePercent(course.score).toFixed(1)}%</span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div
@@ -260,13 +563,25 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
                   <th className="text-left py-3 px-4 font-semibold text-gray-900">Rank</th>
                   <th className="text-left py-3 px-4 font-semibold text-gray-900">Course</th>
                   <th className="text-left py-3 px-4 font-semibold text-gray-900">ID</th>
-                  <th className="text-right py-3 px-4 font-semibold text-gray-900">PageRank Score</th>
+                  {isPersonalized && (
+                    <th className="text-left py-3 px-4 font-semibold text-gray-900">vs Global</th>
+                  )}
+                  <th className="text-right py-3 px-4 font-semibold text-gray-900">Prereqs</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-900">Unlocks</th>
+                  <th className="text-right py-3 px-4 font-semibold text-gray-900">{algorithm.scoreLabel}</th>
                   <th className="text-right py-3 px-4 font-semibold text-gray-900">Foundation %</th>
                 </tr>
               </thead>
               <tbody>
                 {topCourses.map((course) => (
-                  <tr key={course.id} className="border-b border-gray-100/50 hover:bg-white/40 transition-colors">
+                  <tr
+                    key={course.id}
+                    data-course-id={course.id}
+                    onClick={() => toggleSelection(course.id)}
+                    className={`border-b border-gray-100/50 cursor-pointer transition-colors ${
+                      course.id === selectedCourseId ? 'bg-amber-50' : 'hover:bg-white/40'
+                    } ${isOutOfFocus(course.id) ? 'opacity-40' : ''}`}
+                  >
                     <td className="py-3 px-4">
                       <div className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium border ${getRankColor(course.rank)}`}>
                         #{course.rank}
@@ -279,8 +594,17 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
                       )}
                     </td>
                     <td className="py-3 px-4 font-mono text-sm text-gray-600">{course.id}</td>
+                    {isPersonalized && (
+                      <td className="py-3 px-4">{renderRankDelta(course.id, course.rank)}</td>
+                    )}
+                    <td className="py-3 px-4 text-right font-mono text-sm text-gray-600" title={course.prerequisites.join(', ')}>
+                      {course.outDegree}
+                    </td>
+                    <td className="py-3 px-4 text-right font-mono text-sm text-gray-600" title={course.dependents.join(', ')}>
+                      {course.inDegree}
+                    </td>
                     <td className="py-3 px-4 text-right font-mono text-sm font-semibold text-gray-900">
-                      {course.score.toFixed(6)}
+                      {formatScore(course.score)}
                     </td>
                     <td className="py-3 px-4 text-right">
                       <div className="flex items-center justify-end space-x-2">
@@ -291,7 +615,7 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
                           />
                         </div>
                         <span className="text-sm font-medium text-gray-700 w-8">
-                          {((course.score / stats.maxScore) * 100).toFixed(0)}%
+                          {getScorePercent(course.score).toFixed(0)}%
                         </span>
                       </div>
                     </td>
@@ -307,15 +631,13 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
       <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
         <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
           <BarChart3 className="w-5 h-5 mr-2" />
-          PageRank Algorithm Details
+          {algorithm.name} Algorithm Details
         </h3>
         <div className="grid md:grid-cols-2 gap-6">
           <div>
             <h4 className="font-medium text-gray-900 mb-2">How It Works</h4>
             <p className="text-sm text-gray-600 mb-4">
-              The PageRank algorithm treats each course as a node in a directed graph, where 
-              edges represent prerequisite relationships. Courses with higher PageRank scores 
-              are more foundational as they serve as prerequisites for many other courses.
+              {algorithm.description}
             </p>
             <div className="text-xs text-gray-500">
               <strong>Implementation:</strong> Custom TypeScript algorithm
@@ -324,18 +646,36 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
           <div>
             <h4 className="font-medium text-gray-900 mb-2">Parameters</h4>
             <div className="space-y-2 text-sm">
-              <div className="flex justify-between">
-                <span className="text-gray-600">Damping Factor:</span>
-                <span className="font-mono font-medium">{dampingFactor}</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Max Iterations:</span>
-                <span className="font-mono font-medium">100</span>
-              </div>
-              <div className="flex justify-between">
-                <span className="text-gray-600">Tolerance:</span>
-                <span className="font-mono font-medium">1e-6</span>
-              </div>
+              {isPageRank && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Damping Factor:</span>
+                    <span className="font-mono font-medium">{dampingFactor}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Edge Weights:</span>
+                    <span className="font-mono font-medium">{weighted ? 'weighted' : 'uniform'}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Teleport:</span>
+                    <span className="font-mono font-medium">
+                      {isPersonalized ? `${activeTargets.length} target course(s)` : 'uniform'}
+                    </span>
+                  </div>
+                </>
+              )}
+              {convergence && (
+                <>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Max Iterations:</span>
+                    <span className="font-mono font-medium">100</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Tolerance:</span>
+                    <span className="font-mono font-medium">1e-6</span>
+                  </div>
+                </>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-600">Courses Analyzed:</span>
                 <span className="font-mono font-medium">{courses.length}</span>
@@ -343,6 +683,35 @@ export const CourseRanking: React.FC<CourseRankingProps> = ({ courses, prerequis
             </div>
           </div>
         </div>
+
+        {/* Convergence */}
+        {convergence && (
+          <div className="mt-6 pt-6 border-t border-gray-200/50 grid md:grid-cols-2 gap-6">
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Convergence</h4>
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Status:</span>
+                  <span className={`font-medium ${convergence.converged ? 'text-green-600' : 'text-amber-600'}`}>
+                    {convergence.converged ? 'Converged' : 'Stopped at iteration limit'}
+                  </span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Iterations Used:</span>
+                  <span className="font-mono font-medium">{convergence.iterations}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Final Residual (L1):</span>
+                  <span className="font-mono font-medium">{convergence.residual.toExponential(2)}</span>
+                </div>
+              </div>
+            </div>
+            <div>
+              <h4 className="font-medium text-gray-900 mb-2">Residual History</h4>
+              <ConvergenceChart residualHistory={convergence.residualHistory} tolerance={1e-6} />
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,293 @@
+// Comparison of the loaded curriculum against a previous version of it
+
+import React, { useMemo, useState } from 'react';
+import { Download, GitCompare, Minus, Network, Plus, RefreshCw, X } from 'lucide-react';
+import { Course, Prerequisite } from '../types/Course';
+import { CurriculumDiff } from '../algorithms/CurriculumDiff';
+import { CSVParseResult } from '../utils/csvParser';
+import { ParseDiagnostic } from '../utils/csvFormat';
+import { GraphImporter, IMPORT_EXTENSIONS } from '../utils/graphImport';
+import { DIFF_REPORT_FORMATS, DiffReport, DiffReportFormat } from '../utils/diffReport';
+import { FileDownload } from '../utils/download';
+import { CourseGraph } from './CourseGraph';
+import { FileUpload } from './FileUpload';
+import { ParseReport } from './ParseReport';
+import { RankMovementTable } from './RankMovementTable';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+
+interface CurriculumDiffViewProps {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+const formatScore = (score: number) => score.toFixed(4);
+
+const describeEdge = (edge: Prerequisite) =>
+  `${edge.prerequisite} → ${edge.course}${edge.kind === 'corequisite' ? ' (corequisite)' : ''}`;
+
+export const CurriculumDiffView: React.FC<CurriculumDiffViewProps> = ({ courses, prerequisites }) => {
+  const [previous, setPrevious] = useState<{ name: string; data: CSVParseResult } | null>(null);
+  const [diagnostics, setDiagnostics] = useState<ParseDiagnostic[]>([]);
+  const [uploadError, setUploadError] = useState('');
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
+  const [exportFormat, setExportFormat] = useState<DiffReportFormat>('markdown');
+
+  // Both versions are ranked in the analysis worker; the last comparison stays
+  // on screen until the new one is ready
+  const diffTask = useMemo(
+    () => (previous
+      ? {
+        type: 'diff' as const,
+        input: {
+          previous: { courses: previous.data.courses, prerequisites: previous.data.prerequisites },
+          current: { courses, prerequisites }
+        }
+      }
+      : null),
+    [previous, courses, prerequisites]
+  );
+  const comparison = useAnalysisTask(diffTask);
+  const diff = comparison.result;
+  const mergedGraph = useMemo(() => (diff ? CurriculumDiff.mergedGraph(diff) : null), [diff]);
+  const highlight = useMemo(() => (diff ? CurriculumDiff.highlight(diff) : null), [diff]);
+
+  const movements = useMemo(() => {
+    if (!diff) return [];
+    // Biggest movers first, then added and removed courses
+    return [...diff.movements]
+      .filter(movement => movement.rankChange !== 0)
+      .sort((a, b) => Math.abs(b.rankChange ?? -1) - Math.abs(a.rankChange ?? -1));
+  }, [diff]);
+
+  const handleUpload = (content: string, fileName: string) => {
+    setUploadError('');
+    try {
+      const data = GraphImporter.parse(content, fileName);
+      setDiagnostics(data.diagnostics);
+      if (data.prerequisites.length === 0) return;
+      setPrevious({ name: fileName, data });
+      setSelectedCourseId(null);
+    } catch (err) {
+      setDiagnostics([]);
+      setUploadError('Failed to read the previous version. Please check the format.');
+      console.error('Import error:', err);
+    }
+  };
+
+  const handleExport = () => {
+    if (!diff || !previous) return;
+    const { extension, mimeType } = DIFF_REPORT_FORMATS.find(({ id }) => id === exportFormat)!;
+    const content = DiffReport.format(diff, exportFormat, { previousName: previous.name, currentName: 'current' });
+    FileDownload.text(content, `curriculum-diff.${extension}`, mimeType);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Previous version */}
+      <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <GitCompare className="w-5 h-5 mr-2" />
+              Compare with a Previous Version
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              {previous ? (
+                <>
+                  Comparing <span className="font-mono">{previous.name}</span> ({previous.data.courses.length} courses,{' '}
+                  {previous.data.prerequisites.length} prerequisites) with the loaded dataset. Both are ranked
+                  with PageRank (d=0.85).
+                </>
+              ) : (
+                'Upload last year\'s prerequisite file to see what changed and how the rankings moved.'
+              )}
+            </p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <FileUpload
+              onFileUpload={handleUpload}
+              onError={setUploadError}
+              accept={IMPORT_EXTENSIONS}
+              title={previous ? 'Replace Previous Version' : 'Upload Previous Version'}
+              compact
+            />
+            {previous && (
+              <button
+                onClick={() => setPrevious(null)}
+                className="flex items-center px-3 py-2 text-sm text-gray-600 hover:bg-gray-50 rounded-lg"
+              >
+                <X className="w-4 h-4 mr-1" />
+                Remove
+              </button>
+            )}
+          </div>
+        </div>
+        {uploadError && <p className="text-sm text-red-600 mt-3">{uploadError}</p>}
+        {comparison.progress && <AnalysisProgressBar progress={comparison.progress} className="mt-4" />}
+        {comparison.error && <p className="text-sm text-red-600 mt-3">Comparison failed: {comparison.error}</p>}
+        {diagnostics.length > 0 && (
+          <div className="mt-4">
+            <ParseReport
+              title="Previous version import report"
+              diagnostics={diagnostics}
+              onDismiss={() => setDiagnostics([])}
+            />
+          </div>
+        )}
+      </div>
+
+      {diff && mergedGraph && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Courses</div>
+              <div className="text-2xl font-bold text-gray-900">
+                <span className="text-green-600">+{diff.addedCourses.length}</span>{' '}
+                <span className="text-rose-600">−{diff.removedCourses.length}</span>
+              </div>
+              <div className="text-xs text-gray-500">{diff.changedCourses.length} with changed details</div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Prerequisites</div>
+              <div className="text-2xl font-bold text-gray-900">
+                <span className="text-green-600">+{diff.addedEdges.length}</span>{' '}
+                <span className="text-rose-600">−{diff.removedEdges.length}</span>
+              </div>
+              <div className="text-xs text-gray-500">{diff.changedEdges.length} with changed type or weight</div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Courses Moved Up</div>
+              <div className="text-2xl font-bold text-green-600">
+                {diff.movements.filter(movement => (movement.rankChange ?? 0) > 0).length}
+              </div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Courses Moved Down</div>
+              <div className="text-2xl font-bold text-rose-600">
+                {diff.movements.filter(movement => (movement.rankChange ?? 0) < 0).length}
+              </div>
+            </div>
+          </div>
+
+          {/* Changes */}
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Course Changes</h3>
+              <ul className="space-y-1 text-sm max-h-72 overflow-y-auto">
+                {diff.addedCourses.map(id => (
+                  <li key={`added-${id}`} className="flex items-center text-green-700">
+                    <Plus className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="font-mono">{id}</span>
+                  </li>
+                ))}
+                {diff.removedCourses.map(id => (
+                  <li key={`removed-${id}`} className="flex items-center text-rose-700">
+                    <Minus className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="font-mono">{id}</span>
+                  </li>
+                ))}
+                {diff.changedCourses.map(({ courseId, fields }) => (
+                  <li key={`changed-${courseId}`} className="flex items-center text-amber-700">
+                    <RefreshCw className="w-4 h-4 mr-2 flex-shrink-0" />
+                    <span className="font-mono mr-2">{courseId}</span>
+                    <span className="text-xs">{fields.join(', ')}</span>
+                  </li>
+                ))}
+                {diff.addedCourses.length + diff.removedCourses.length + diff.changedCourses.length === 0 && (
+                  <li className="text-gray-500">No course was added, removed or edited</li>
+                )}
+              </ul>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Prerequisite Changes</h3>
+              <ul className="space-y-1 text-sm font-mono max-h-72 overflow-y-auto">
+                {diff.addedEdges.map(edge => (
+                  <li key={`added-${edge.prerequisite}-${edge.course}`} className="flex items-center text-green-700">
+                    <Plus className="w-4 h-4 mr-2 flex-shrink-0" />
+                    {describeEdge(edge)}
+                  </li>
+                ))}
+                {diff.removedEdges.map(edge => (
+                  <li key={`removed-${edge.prerequisite}-${edge.course}`} className="flex items-center text-rose-700">
+                    <Minus className="w-4 h-4 mr-2 flex-shrink-0" />
+                    {describeEdge(edge)}
+                  </li>
+                ))}
+                {diff.changedEdges.map(({ after }) => (
+                  <li key={`changed-${after.prerequisite}-${after.course}`} className="flex items-center text-amber-700">
+                    <RefreshCw className="w-4 h-4 mr-2 flex-shrink-0" />
+                    {describeEdge(after)}
+                  </li>
+                ))}
+                {diff.addedEdges.length + diff.removedEdges.length + diff.changedEdges.length === 0 && (
+                  <li className="text-gray-500 font-sans">No prerequisite was added, removed or edited</li>
+                )}
+              </ul>
+            </div>
+          </div>
+
+          {/* Graph */}
+          <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Network className="w-5 h-5 mr-2" />
+                Changes in the Prerequisite Graph
+              </h3>
+              <div className="flex items-center space-x-4 text-xs text-gray-600">
+                <span className="flex items-center">
+                  <span className="w-6 h-0.5 bg-green-600 mr-2" />Added
+                </span>
+                <span className="flex items-center">
+                  <span className="w-6 border-t-2 border-dashed border-rose-600 mr-2" />Removed
+                </span>
+              </div>
+            </div>
+            <CourseGraph
+              graph={mergedGraph}
+              diff={highlight}
+              formatScore={formatScore}
+              selectedCourseId={selectedCourseId}
+              onSelectCourse={setSelectedCourseId}
+              exportFileName="curriculum-diff"
+            />
+          </div>
+
+          {/* Rank movement */}
+          <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Rank Movement</h3>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={exportFormat}
+                  onChange={(e) => setExportFormat(e.target.value as DiffReportFormat)}
+                  className="border border-gray-300 rounded-lg px-3 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                >
+                  {DIFF_REPORT_FORMATS.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={handleExport}
+                  disabled={comparison.progress !== null}
+                  className="flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors duration-200 text-sm font-medium disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Export Report
+                </button>
+              </div>
+            </div>
+
+            <RankMovementTable
+              movements={movements}
+              formatScore={formatScore}
+              selectedCourseId={selectedCourseId}
+              onSelectCourse={setSelectedCourseId}
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,428 @@
+// Editor for courses and prerequisite edges with undo/redo and a live PageRank ranking
+
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Link2, Link2Off, PencilRuler, Plus, Redo2, Search, Trash2, Undo2 } from 'lucide-react';
+import { Course, Prerequisite, RequirementKind } from '../types/Course';
+import { CurriculumVersion } from '../algorithms/CurriculumDiff';
+import { CurriculumEdit, CurriculumEditor, EditHistory } from '../utils/curriculumEditor';
+import { CSVParser } from '../utils/csvParser';
+import { FileDownload } from '../utils/download';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+
+interface CurriculumEditorPanelProps {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+  /** Called with the edited curriculum after every edit, undo and redo */
+  onChange: (curriculum: CurriculumVersion) => void;
+}
+
+const inputClass =
+  'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const parseCredits = (value: string) => (value.trim() === '' ? undefined : Number(value));
+
+export const CurriculumEditorPanel: React.FC<CurriculumEditorPanelProps> = ({ courses, prerequisites, onChange }) => {
+  const [history, setHistory] = useState<EditHistory>(() =>
+    CurriculumEditor.startHistory({ courses, prerequisites })
+  );
+  const [error, setError] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [newCourse, setNewCourse] = useState({ id: '', name: '', credits: '' });
+  const [newEdge, setNewEdge] = useState<{ prerequisite: string; kind: RequirementKind; group: string }>({
+    prerequisite: '',
+    kind: 'prerequisite',
+    group: ''
+  });
+
+  // A different dataset was loaded outside the editor: start a new history
+  const { present } = history;
+  if (present.courses !== courses || present.prerequisites !== prerequisites) {
+    setHistory(CurriculumEditor.startHistory({ courses, prerequisites }));
+  }
+
+  // Live ranking in the analysis worker, compared with the state before the
+  // last edit. Course details always come from the present state; ranks may lag
+  // behind by one edit until the worker catches up.
+  const previousState = history.past[history.past.length - 1]?.state;
+  const rankingTask = useMemo(
+    () => ({ type: 'diff' as const, input: { previous: previousState ?? present, current: present } }),
+    [previousState, present]
+  );
+  const ranking = useAnalysisTask(rankingTask);
+  const ranks = useMemo(
+    () => new Map(ranking.result?.current.nodes.map(node => [node.id, node]) ?? []),
+    [ranking.result]
+  );
+  const previousRanks = useMemo(
+    () => (ranking.result && previousState ? new Map(ranking.result.previous.nodes.map(node => [node.id, node])) : null),
+    [ranking.result, previousState]
+  );
+
+  const coursesById = useMemo(() => new Map(present.courses.map(course => [course.id, course])), [present]);
+  const selected = selectedId ? coursesById.get(selectedId) ?? null : null;
+  const selectedRank = selected ? ranks.get(selected.id) : undefined;
+  const courseIds = useMemo(() => present.courses.map(course => course.id).sort(), [present]);
+  const selectedEdges = useMemo(
+    () => ({
+      requires: present.prerequisites.filter(edge => edge.course === selectedId),
+      requiredBy: present.prerequisites.filter(edge => edge.prerequisite === selectedId)
+    }),
+    [present, selectedId]
+  );
+
+  // Courses the ranking has not caught up with yet go last
+  const listedCourses = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const rankOf = (id: string) => ranks.get(id)?.rank ?? Infinity;
+    return present.courses
+      .filter(course => !query || course.id.toLowerCase().includes(query) || course.name.toLowerCase().includes(query))
+      .sort((a, b) => rankOf(a.id) - rankOf(b.id));
+  }, [present, ranks, search]);
+
+  const update = (next: EditHistory) => {
+    setHistory(next);
+    setError('');
+    if (next !== history) onChange(next.present);
+  };
+
+  const commit = (edit: CurriculumEdit): boolean => {
+    const problem = CurriculumEditor.validate(present, edit);
+    if (problem) {
+      setError(problem);
+      return false;
+    }
+    update(CurriculumEditor.record(history, edit));
+    return true;
+  };
+
+  const addCourse = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = newCourse.id.trim();
+    const added = commit({
+      type: 'add-course',
+      course: { id, name: newCourse.name.trim() || id, credits: parseCredits(newCourse.credits) }
+    });
+    if (added) {
+      setNewCourse({ id: '', name: '', credits: '' });
+      setSelectedId(id);
+    }
+  };
+
+  const addEdge = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedId || !newEdge.prerequisite) return;
+    const added = commit({
+      type: 'add-edge',
+      edge: {
+        prerequisite: newEdge.prerequisite,
+        course: selectedId,
+        kind: newEdge.kind === 'corequisite' ? 'corequisite' : undefined,
+        group: newEdge.group.trim() || undefined
+      }
+    });
+    if (added) setNewEdge({ ...newEdge, prerequisite: '', group: '' });
+  };
+
+  // Detail fields are committed when they lose focus; keys reset them after undo and redo
+  const updateDetail = (
+    course: Course,
+    field: 'name' | 'description' | 'credits',
+    input: HTMLInputElement | HTMLTextAreaElement
+  ) => {
+    const raw = input.value;
+    const value = field === 'credits' ? parseCredits(raw) : field === 'description' ? raw.trim() || undefined : raw.trim();
+    if (value === course[field]) return;
+    if (!commit({ type: 'update-course', courseId: course.id, changes: { [field]: value } })) {
+      input.value = String(course[field] ?? '');
+    }
+  };
+
+  const deleteSelected = () => {
+    if (!selected) return;
+    if (commit({ type: 'delete-course', courseId: selected.id })) setSelectedId(null);
+  };
+
+  const renderRankChange = (courseId: string) => {
+    const before = previousRanks?.get(courseId);
+    const after = ranks.get(courseId);
+    if (!before || !after || before.rank === after.rank) return null;
+    const change = before.rank - after.rank;
+    return change > 0 ? (
+      <span className="flex items-center text-xs text-green-600"><ArrowUp className="w-3 h-3" />{change}</span>
+    ) : (
+      <span className="flex items-center text-xs text-rose-600"><ArrowDown className="w-3 h-3" />{-change}</span>
+    );
+  };
+
+  const renderEdge = (edge: Prerequisite, otherId: string) => (
+    <li key={`${edge.prerequisite}->${edge.course}:${edge.group ?? ''}`} className="flex items-center justify-between py-2">
+      <button onClick={() => setSelectedId(otherId)} className="min-w-0 text-left hover:text-blue-600">
+        <span className="font-mono text-sm text-gray-600 mr-2">{otherId}</span>
+        <span className="text-sm text-gray-900">{coursesById.get(otherId)?.name}</span>
+        {(edge.kind === 'corequisite' || edge.group) && (
+          <span className="ml-2 text-xs text-gray-500">
+            {[edge.kind === 'corequisite' ? 'corequisite' : '', edge.group ? `group ${edge.group}` : '']
+              .filter(Boolean)
+              .join(', ')}
+          </span>
+        )}
+      </button>
+      <button
+        onClick={() => commit({ type: 'remove-edge', prerequisite: edge.prerequisite, course: edge.course, group: edge.group })}
+        className="p-1 text-gray-400 hover:text-red-600"
+        aria-label={`Remove ${edge.prerequisite} → ${edge.course}`}
+      >
+        <Link2Off className="w-4 h-4" />
+      </button>
+    </li>
+  );
+
+  const lastEdit = history.past[history.past.length - 1]?.label;
+  const nextEdit = history.future[0]?.label;
+
+  return (
+    <div className="space-y-6">
+      {/* Toolbar */}
+      <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <PencilRuler className="w-5 h-5 mr-2" />
+              Edit Curriculum
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Changes apply to the loaded dataset right away and every view is re-ranked. Ranks below are
+              PageRank (d=0.85), with the movement caused by the last edit.
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => update(CurriculumEditor.undo(history))}
+              disabled={!lastEdit}
+              title={lastEdit ? `Undo ${lastEdit}` : 'Nothing to undo'}
+              className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Undo2 className="w-4 h-4 mr-1" />
+              Undo
+            </button>
+            <button
+              onClick={() => update(CurriculumEditor.redo(history))}
+              disabled={!nextEdit}
+              title={nextEdit ? `Redo ${nextEdit}` : 'Nothing to redo'}
+              className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Redo2 className="w-4 h-4 mr-1" />
+              Redo
+            </button>
+            <button
+              onClick={() => FileDownload.text(CSVParser.exportToCSV(present.courses, present.prerequisites), 'prerequisites.csv', 'text/csv')}
+              className="flex items-center px-3 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Prerequisites CSV
+            </button>
+            <button
+              onClick={() => FileDownload.text(CSVParser.exportCatalogToCSV(present.courses), 'catalog.csv', 'text/csv')}
+              className="flex items-center px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 rounded-lg"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Catalog CSV
+            </button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-600 mt-3">{error}</p>}
+        {ranking.progress && <AnalysisProgressBar progress={ranking.progress} className="mt-4" />}
+        {ranking.error && <p className="text-sm text-red-600 mt-3">Ranking failed: {ranking.error}</p>}
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        {/* Courses */}
+        <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50 space-y-4">
+          <form onSubmit={addCourse} className="flex flex-wrap gap-2">
+            <input
+              value={newCourse.id}
+              onChange={(e) => setNewCourse({ ...newCourse, id: e.target.value })}
+              placeholder="ID, e.g. CS250"
+              className={`${inputClass} w-32`}
+            />
+            <input
+              value={newCourse.name}
+              onChange={(e) => setNewCourse({ ...newCourse, name: e.target.value })}
+              placeholder="Name"
+              className={`${inputClass} flex-1 min-w-32`}
+            />
+            <input
+              type="number"
+              min={0}
+              value={newCourse.credits}
+              onChange={(e) => setNewCourse({ ...newCourse, credits: e.target.value })}
+              placeholder="Credits"
+              className={`${inputClass} w-24`}
+            />
+            <button
+              type="submit"
+              disabled={!newCourse.id.trim()}
+              className="flex items-center px-3 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add Course
+            </button>
+          </form>
+
+          <div className="relative">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search courses"
+              className={`${inputClass} w-full pl-9`}
+            />
+          </div>
+
+          <ul className="divide-y divide-gray-100 max-h-[32rem] overflow-y-auto">
+            {listedCourses.map(course => (
+              <li key={course.id}>
+                <button
+                  onClick={() => setSelectedId(course.id)}
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-left ${
+                    course.id === selectedId ? 'bg-blue-50' : 'hover:bg-white/80'
+                  }`}
+                >
+                  <div className="min-w-0">
+                    <span className="font-mono text-sm text-gray-600 mr-2">{course.id}</span>
+                    <span className="text-sm text-gray-900">{course.name}</span>
+                  </div>
+                  <div className="flex items-center space-x-2 ml-2 shrink-0">
+                    {renderRankChange(course.id)}
+                    <span className="text-sm font-semibold text-gray-700">#{ranks.get(course.id)?.rank ?? '–'}</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        {/* Selected course */}
+        <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+          {!selected ? (
+            <p className="text-sm text-gray-500">Select a course to edit its details and prerequisites.</p>
+          ) : (
+            <div className="space-y-6">
+              <div className="flex items-center justify-between">
+                <div>
+                  <span className="font-mono text-lg font-semibold text-gray-900">{selected.id}</span>
+                  <span className="ml-3 text-sm text-gray-600">
+                    {selectedRank ? `Rank #${selectedRank.rank} • score ${selectedRank.score.toFixed(4)}` : 'Ranking…'}
+                  </span>
+                </div>
+                <button
+                  onClick={deleteSelected}
+                  className="flex items-center px-3 py-2 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+                >
+                  <Trash2 className="w-4 h-4 mr-1" />
+                  Delete Course
+                </button>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                <label className="col-span-3 text-sm text-gray-700">
+                  Name
+                  <input
+                    key={`name:${selected.id}:${selected.name}`}
+                    defaultValue={selected.name}
+                    onBlur={(e) => updateDetail(selected, 'name', e.target)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className={`${inputClass} w-full mt-1`}
+                  />
+                </label>
+                <label className="text-sm text-gray-700">
+                  Credits
+                  <input
+                    key={`credits:${selected.id}:${selected.credits}`}
+                    type="number"
+                    min={0}
+                    defaultValue={selected.credits ?? ''}
+                    onBlur={(e) => updateDetail(selected, 'credits', e.target)}
+                    onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                    className={`${inputClass} w-full mt-1`}
+                  />
+                </label>
+                <label className="col-span-4 text-sm text-gray-700">
+                  Description
+                  <textarea
+                    key={`description:${selected.id}:${selected.description}`}
+                    defaultValue={selected.description ?? ''}
+                    onBlur={(e) => updateDetail(selected, 'description', e.target)}
+                    rows={2}
+                    className={`${inputClass} w-full mt-1`}
+                  />
+                </label>
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-2">Requires ({selectedEdges.requires.length})</h4>
+                {selectedEdges.requires.length === 0 ? (
+                  <p className="text-sm text-gray-500">No prerequisites.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {selectedEdges.requires.map(edge => renderEdge(edge, edge.prerequisite))}
+                  </ul>
+                )}
+                <form onSubmit={addEdge} className="flex flex-wrap gap-2 mt-3">
+                  <select
+                    value={newEdge.prerequisite}
+                    onChange={(e) => setNewEdge({ ...newEdge, prerequisite: e.target.value })}
+                    className={`${inputClass} flex-1 min-w-32`}
+                  >
+                    <option value="">Add a prerequisite…</option>
+                    {courseIds
+                      .filter(id => id !== selected.id && !selectedEdges.requires.some(edge => edge.prerequisite === id))
+                      .map(id => (
+                        <option key={id} value={id}>{id} — {coursesById.get(id)?.name}</option>
+                      ))}
+                  </select>
+                  <select
+                    value={newEdge.kind}
+                    onChange={(e) => setNewEdge({ ...newEdge, kind: e.target.value as RequirementKind })}
+                    className={inputClass}
+                  >
+                    <option value="prerequisite">Prerequisite</option>
+                    <option value="corequisite">Corequisite</option>
+                  </select>
+                  <input
+                    value={newEdge.group}
+                    onChange={(e) => setNewEdge({ ...newEdge, group: e.target.value })}
+                    placeholder="Group"
+                    title="Edges into this course with the same group are alternatives"
+                    className={`${inputClass} w-24`}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!newEdge.prerequisite}
+                    className="flex items-center px-3 py-2 text-sm text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+                  >
+                    <Link2 className="w-4 h-4 mr-1" />
+                    Add
+                  </button>
+                </form>
+              </div>
+
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-2">Required by ({selectedEdges.requiredBy.length})</h4>
+                {selectedEdges.requiredBy.length === 0 ? (
+                  <p className="text-sm text-gray-500">No course requires {selected.id}.</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {selectedEdges.requiredBy.map(edge => renderEdge(edge, edge.course))}
+                  </ul>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
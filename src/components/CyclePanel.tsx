@@ -0,0 +1,63 @@
+// Report of circular prerequisite chains found in the data
+
+import React from 'react';
+import { RefreshCcw } from 'lucide-react';
+import { PrerequisiteCycle } from '../algorithms/CycleDetection';
+
+interface CyclePanelProps {
+  cycles: PrerequisiteCycle[];
+  highlight: boolean;
+  onHighlightChange: (highlight: boolean) => void;
+}
+
+export const CyclePanel: React.FC<CyclePanelProps> = ({ cycles, highlight, onHighlightChange }) => {
+  if (cycles.length === 0) return null;
+
+  return (
+    <div className="bg-red-50/80 backdrop-blur-sm rounded-xl p-6 border border-red-200">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between mb-4 space-y-2 md:space-y-0">
+        <h3 className="text-lg font-semibold text-red-800 flex items-center">
+          <RefreshCcw className="w-5 h-5 mr-2" />
+          {cycles.length} Circular Prerequisite Chain{cycles.length === 1 ? '' : 's'}
+        </h3>
+        <label className="flex items-center space-x-2 text-sm text-red-800 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={highlight}
+            onChange={(e) => onHighlightChange(e.target.checked)}
+            className="rounded border-red-300 text-red-600 focus:ring-red-500"
+          />
+          <span>Highlight in graph</span>
+        </label>
+      </div>
+      <p className="text-sm text-red-700 mb-4">
+        These courses require each other, so no valid order exists for them and their
+        ranking scores should be treated with caution.
+      </p>
+
+      <div className="space-y-3">
+        {cycles.map((cycle, index) => (
+          <div key={cycle.courses.join('|')} className="bg-white/80 rounded-lg p-4 border border-red-100">
+            <div className="flex items-center justify-between mb-2">
+              <span className="font-medium text-gray-900">Cycle {index + 1}</span>
+              <span className="text-xs text-gray-500">
+                {cycle.courses.length} course{cycle.courses.length === 1 ? '' : 's'} • {cycle.edges.length} edge{cycle.edges.length === 1 ? '' : 's'}
+              </span>
+            </div>
+            <p className="font-mono text-sm text-red-700 mb-2">{cycle.path.join(' → ')}</p>
+            <div className="flex flex-wrap gap-1">
+              {cycle.edges.map(edge => (
+                <span
+                  key={`${edge.prerequisite}->${edge.course}:${edge.group ?? ''}`}
+                  className="px-2 py-0.5 bg-red-50 border border-red-100 rounded font-mono text-xs text-gray-700"
+                >
+                  {edge.prerequisite} → {edge.course}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
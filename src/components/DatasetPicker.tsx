@@ -0,0 +1,141 @@
+// Menu of saved datasets with switching, renaming and deleting
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Check, ChevronDown, Database, Pencil, Trash2, X } from 'lucide-react';
+import { DatasetSummary } from '../utils/datasetStore';
+
+interface DatasetPickerProps {
+  datasets: DatasetSummary[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const DatasetPicker: React.FC<DatasetPickerProps> = ({ datasets, activeId, onSelect, onRename, onDelete }) => {
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const active = datasets.find(dataset => dataset.id === activeId);
+  const sorted = [...datasets].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+  // Close the menu on clicks outside of it
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+        setEditing(null);
+        setConfirmDeleteId(null);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) onRename(editing.id, editing.name.trim());
+    setEditing(null);
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center space-x-2 px-3 py-2 bg-white/70 border border-gray-200 rounded-lg text-sm hover:bg-white transition-colors duration-200"
+      >
+        <Database className="w-4 h-4 text-blue-600" />
+        <span className="font-medium text-gray-900 max-w-48 truncate">
+          {active?.name ?? `Saved Datasets (${datasets.length})`}
+        </span>
+        <ChevronDown className="w-4 h-4 text-gray-500" />
+      </button>
+
+      {open && (
+        <div className="absolute z-20 mt-2 w-96 bg-white border border-gray-200 rounded-lg shadow-lg max-h-96 overflow-y-auto">
+          {sorted.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-gray-500">No saved datasets yet. Uploaded files are saved here.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100">
+              {sorted.map(dataset => (
+                <li
+                  key={dataset.id}
+                  className={`flex items-center justify-between px-4 py-3 ${dataset.id === activeId ? 'bg-blue-50' : ''}`}
+                >
+                  {editing?.id === dataset.id ? (
+                    <input
+                      autoFocus
+                      value={editing.name}
+                      onChange={(e) => setEditing({ id: dataset.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      onBlur={commitRename}
+                      className="flex-1 mr-2 border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => {
+                        onSelect(dataset.id);
+                        setOpen(false);
+                      }}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <div className="text-sm font-medium text-gray-900 truncate">{dataset.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {dataset.courses} courses • {dataset.prerequisites} prerequisites •{' '}
+                        {new Date(dataset.savedAt).toLocaleDateString()}
+                      </div>
+                    </button>
+                  )}
+
+                  {confirmDeleteId === dataset.id ? (
+                    <div className="flex items-center space-x-1 ml-2">
+                      <button
+                        onClick={() => {
+                          onDelete(dataset.id);
+                          setConfirmDeleteId(null);
+                        }}
+                        className="px-2 py-1 text-xs font-medium text-white bg-red-600 rounded hover:bg-red-700"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(null)}
+                        className="p-1 text-gray-500 hover:text-gray-700"
+                        aria-label="Cancel"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center space-x-1 ml-2">
+                      {dataset.id === activeId && <Check className="w-4 h-4 text-blue-600" />}
+                      <button
+                        onClick={() => setEditing({ id: dataset.id, name: dataset.name })}
+                        className="p-1 text-gray-400 hover:text-gray-700"
+                        aria-label={`Rename ${dataset.name}`}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setConfirmDeleteId(dataset.id)}
+                        className="p-1 text-gray-400 hover:text-red-600"
+                        aria-label={`Delete ${dataset.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,219 @@
+// Courses a student can take next, checked against a pasted or uploaded transcript
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ClipboardCheck, HelpCircle, Hourglass, Unlock } from 'lucide-react';
+import { Course, Prerequisite } from '../types/Course';
+import { CourseEligibility, EligibilityReport } from '../algorithms/Eligibility';
+import { CSVParser } from '../utils/csvParser';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+import { FileUpload } from './FileUpload';
+import { ParseReport } from './ParseReport';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+
+interface EligibilityPanelProps {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+interface ResultSectionProps {
+  title: string;
+  description: string;
+  icon: React.ReactNode;
+  count: number;
+  children: React.ReactNode;
+}
+
+const ResultSection: React.FC<ResultSectionProps> = ({ title, description, icon, count, children }) => (
+  <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+    <div className="flex items-center justify-between mb-1">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        {icon}
+        {title}
+      </h3>
+      <span className="text-sm text-gray-500">{count} course{count === 1 ? '' : 's'}</span>
+    </div>
+    <p className="text-sm text-gray-600 mb-4">{description}</p>
+    {count === 0 ? <p className="text-sm text-gray-500">None</p> : children}
+  </div>
+);
+
+// Placeholder until the first report arrives from the worker
+const EMPTY_REPORT: EligibilityReport = {
+  completed: [],
+  unknown: [],
+  unlocked: [],
+  entryLevel: [],
+  oneAway: [],
+  outOfOrder: []
+};
+
+const describeOptions = (options: string[]) =>
+  options.length === 1 ? options[0] : `one of ${options.join(', ')}`;
+
+export const EligibilityPanel: React.FC<EligibilityPanelProps> = ({ courses, prerequisites }) => {
+  const [transcriptText, setTranscriptText] = useState('');
+  const [uploadError, setUploadError] = useState('');
+
+  const transcript = useMemo(
+    () => (transcriptText.trim() ? CSVParser.parseTranscript(transcriptText) : null),
+    [transcriptText]
+  );
+
+  // Checked in the analysis worker; the previous report stays on screen until the new one is ready
+  const eligibilityTask = useMemo(
+    () => ({ type: 'eligibility' as const, input: { courses, prerequisites, transcript: transcript?.entries ?? [] } }),
+    [courses, prerequisites, transcript]
+  );
+  const checking = useAnalysisTask(eligibilityTask);
+  const report = checking.result ?? EMPTY_REPORT;
+
+  const courseById = useMemo(() => new Map(courses.map(course => [course.id, course])), [courses]);
+
+  const renderCourse = (courseId: string) => (
+    <div className="min-w-0">
+      <span className="font-mono text-sm text-gray-600 mr-2">{courseId}</span>
+      <span className="text-gray-900">{courseById.get(courseId)?.name}</span>
+    </div>
+  );
+
+  const renderEligibility = (eligibility: CourseEligibility, detail: React.ReactNode) => (
+    <li key={eligibility.courseId} className="flex items-start justify-between p-3 bg-white/70 rounded-lg border border-gray-200">
+      <div className="min-w-0">
+        {renderCourse(eligibility.courseId)}
+        <div className="text-xs text-gray-500 mt-0.5">
+          {detail}
+          {eligibility.corequisites.length > 0 && (
+            <span> • take with {eligibility.corequisites.join(', ')}</span>
+          )}
+        </div>
+      </div>
+      <span className="text-xs text-gray-500 whitespace-nowrap ml-3">
+        unlocks {eligibility.dependents}
+      </span>
+    </li>
+  );
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-6">
+      {/* Transcript */}
+      <div className="space-y-4">
+        <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <ClipboardCheck className="w-5 h-5 mr-2" />
+            Transcript
+          </h3>
+          <p className="text-sm text-gray-600">
+            Paste the completed courses, one per line. Add a term after a comma
+            (<span className="font-mono">CS101,2</span>) to check the order they were taken in.
+          </p>
+          <textarea
+            value={transcriptText}
+            onChange={(e) => setTranscriptText(e.target.value)}
+            rows={10}
+            placeholder={'MATH100,1\nCS100,1\nCS101,2'}
+            className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm font-mono focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <div className="flex items-center justify-between">
+            <FileUpload
+              onFileUpload={(content) => {
+                setUploadError('');
+                setTranscriptText(content);
+              }}
+              onError={setUploadError}
+              title="Upload Transcript"
+              compact
+            />
+            {transcriptText && (
+              <button
+                onClick={() => setTranscriptText('')}
+                className="text-sm text-gray-500 hover:text-gray-700"
+              >
+                Clear
+              </button>
+            )}
+          </div>
+          {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+          {checking.progress && <AnalysisProgressBar progress={checking.progress} />}
+          {checking.error && <p className="text-sm text-red-600">Check failed: {checking.error}</p>}
+          <div className="text-sm text-gray-600">
+            <span className="font-semibold text-gray-900">{report.completed.length}</span> of {courses.length} courses
+            completed
+          </div>
+        </div>
+
+        {transcript && (
+          <ParseReport title="Transcript import report" diagnostics={transcript.diagnostics} />
+        )}
+
+        {report.unknown.length > 0 && (
+          <div className="bg-amber-50/80 rounded-xl p-4 border border-amber-200 text-sm text-amber-900">
+            <p className="font-medium flex items-center mb-1">
+              <HelpCircle className="w-4 h-4 mr-2" />
+              Not in this curriculum
+            </p>
+            <p className="font-mono">{report.unknown.join(', ')}</p>
+          </div>
+        )}
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-2 space-y-6">
+        <ResultSection
+          title="Unlocked"
+          description="All prerequisites are completed; courses that lead to the most others come first."
+          icon={<Unlock className="w-5 h-5 mr-2 text-green-600" />}
+          count={report.unlocked.length}
+        >
+          <ul className="space-y-2">
+            {report.unlocked.map(eligibility => renderEligibility(eligibility, 'ready to take'))}
+          </ul>
+          {report.entryLevel.length > 0 && (
+            <p className="text-xs text-gray-500 mt-3">
+              Also open: {report.entryLevel.length} course{report.entryLevel.length === 1 ? '' : 's'} without
+              prerequisites ({report.entryLevel.join(', ')})
+            </p>
+          )}
+        </ResultSection>
+
+        <ResultSection
+          title="One Prerequisite Away"
+          description="Exactly one requirement is still missing."
+          icon={<Hourglass className="w-5 h-5 mr-2 text-amber-600" />}
+          count={report.oneAway.length}
+        >
+          <ul className="space-y-2">
+            {report.oneAway.map(eligibility =>
+              renderEligibility(eligibility, `needs ${describeOptions(eligibility.missing[0])}`)
+            )}
+          </ul>
+        </ResultSection>
+
+        <ResultSection
+          title="Taken Out of Order"
+          description="Completed courses whose prerequisites are missing from the transcript or were passed afterwards."
+          icon={<AlertTriangle className="w-5 h-5 mr-2 text-red-600" />}
+          count={report.outOfOrder.length}
+        >
+          <ul className="space-y-2">
+            {report.outOfOrder.map(({ courseId, term, issues }) => (
+              <li key={courseId} className="p-3 bg-red-50/70 rounded-lg border border-red-200">
+                <div className="flex items-center justify-between">
+                  {renderCourse(courseId)}
+                  {term && <span className="text-xs text-gray-500 ml-3">term {term}</span>}
+                </div>
+                <ul className="text-xs text-red-700 mt-1 space-y-0.5">
+                  {issues.map((issue, index) => (
+                    <li key={index}>
+                      {describeOptions(issue.options)}{' '}
+                      {issue.problem === 'missing' ? 'is not on the transcript' : 'was passed later'}
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        </ResultSection>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,165 @@
+// Export dialog for rankings (JSON, CSV, Markdown) and the underlying dataset
+
+import React, { useMemo, useState } from 'react';
+import { Download, FileText, X } from 'lucide-react';
+import { ConvergenceInfo, Course, CourseNode, Prerequisite } from '../types/Course';
+import { RankingAlgorithm } from '../algorithms/RankingAlgorithm';
+import { RankingSettings } from '../algorithms/registry';
+import { RANKING_EXPORT_FORMATS, RankingExport, RankingExportFormat } from '../utils/rankingExport';
+import { CSVParser } from '../utils/csvParser';
+import { FileDownload } from '../utils/download';
+
+interface ExportDialogProps {
+  algorithm: RankingAlgorithm;
+  settings: RankingSettings;
+  /** Ranked nodes, ordered by rank */
+  nodes: CourseNode[];
+  convergence?: ConvergenceInfo;
+  rankedAt: Date;
+  courses: Course[];
+  prerequisites: Prerequisite[];
+  topN: number;
+  onClose: () => void;
+}
+
+const PREVIEW_LINES = 12;
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  algorithm,
+  settings,
+  nodes,
+  convergence,
+  rankedAt,
+  courses,
+  prerequisites,
+  topN,
+  onClose
+}) => {
+  const [format, setFormat] = useState<RankingExportFormat>('csv');
+  const [scope, setScope] = useState<'all' | 'top'>('all');
+
+  const content = useMemo(() => {
+    const exported = scope === 'all' ? nodes : nodes.slice(0, topN);
+    const report = RankingExport.build(
+      algorithm,
+      settings,
+      exported,
+      { courses: courses.length, prerequisites: prerequisites.length },
+      convergence,
+      rankedAt
+    );
+    return RankingExport.format(report, format);
+  }, [algorithm, settings, nodes, convergence, rankedAt, courses, prerequisites, topN, scope, format]);
+
+  const preview = useMemo(() => {
+    const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+    return lines.slice(0, PREVIEW_LINES).join('\n') + (lines.length > PREVIEW_LINES ? '\n…' : '');
+  }, [content]);
+
+  const handleDownload = () => {
+    const { extension, mimeType } = RANKING_EXPORT_FORMATS.find(({ id }) => id === format)!;
+    FileDownload.text(content, `course-rankings-${algorithm.id}.${extension}`, mimeType);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl w-full max-w-2xl p-6 space-y-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Download className="w-5 h-5 mr-2" />
+            Export Rankings
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-6">
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Format</h4>
+            <div className="space-y-1">
+              {RANKING_EXPORT_FORMATS.map(({ id, name }) => (
+                <label key={id} className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="export-format"
+                    checked={format === id}
+                    onChange={() => setFormat(id)}
+                    className="text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>{name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+          <div>
+            <h4 className="text-sm font-medium text-gray-700 mb-2">Courses</h4>
+            <div className="space-y-1">
+              <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === 'all'}
+                  onChange={() => setScope('all')}
+                  className="text-blue-600 focus:ring-blue-500"
+                />
+                <span>All {nodes.length} courses</span>
+              </label>
+              <label className="flex items-center space-x-2 text-sm text-gray-700 cursor-pointer">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={scope === 'top'}
+                  onChange={() => setScope('top')}
+                  className="text-blue-600 focus:ring-blue-500"
+                />
+                <span>Top {Math.min(topN, nodes.length)} only</span>
+              </label>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 mb-2">Preview</h4>
+          <pre className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-xs text-gray-700 overflow-x-auto max-h-56">
+            {preview}
+          </pre>
+          <p className="text-xs text-gray-500 mt-2">
+            Includes degrees, prerequisite and dependent lists, credits, algorithm parameters and the
+            time of the run ({rankedAt.toLocaleString()}).
+          </p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 pt-4 border-t border-gray-200">
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-600">Dataset:</span>
+            <button
+              onClick={() => FileDownload.text(CSVParser.exportToCSV(courses, prerequisites), 'prerequisites.csv', 'text/csv')}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+            >
+              <FileText className="w-4 h-4 inline mr-1" />
+              Prerequisites CSV
+            </button>
+            <button
+              onClick={() => FileDownload.text(CSVParser.exportCatalogToCSV(courses), 'catalog.csv', 'text/csv')}
+              className="px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+            >
+              <FileText className="w-4 h-4 inline mr-1" />
+              Catalog CSV
+            </button>
+          </div>
+          <button
+            onClick={handleDownload}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg font-medium hover:bg-green-700 transition-colors duration-200"
+          >
+            <Download className="w-4 h-4 inline mr-2" />
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
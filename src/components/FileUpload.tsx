@@ -1,28 +1,36 @@
-// File upload component for CSV data
+// File upload component for course data files
 // Logic generated by Bolt.new
 
 import React, { useCallback } from 'react';
 import { Upload, FileText, AlertCircle } from 'lucide-react';
 
 interface FileUploadProps {
-  onFileUpload: (content: string) => void;
+  /** Receives the file's text and its name, which importers use to detect the format */
+  onFileUpload: (content: string, fileName: string) => void;
   onError: (error: string) => void;
   accept?: string;
   className?: string;
+  title?: string;
+  formatExample?: string[];
+  /** Short description of the accepted formats */
+  formatHint?: string;
+  compact?: boolean;
 }
 
 export const FileUpload: React.FC<FileUploadProps> = ({
   onFileUpload,
   onError,
-  accept = '.csv',
-  className = ''
+  accept = '.csv,.tsv,.txt',
+  className = '',
+  title = 'Upload Course Prerequisites',
+  formatExample = ['prerequisite,course', 'MATH101,MATH102', 'CS101,CS102'],
+  formatHint = 'Comma, tab or semicolon separated',
+  compact = false
 }) => {
-  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-
-    if (!file.name.toLowerCase().endsWith('.csv')) {
-      onError('Please upload a CSV file');
+  const readFile = useCallback((file: File) => {
+    const extensions = accept.split(',').map(ext => ext.trim().toLowerCase());
+    if (!extensions.some(ext => file.name.toLowerCase().endsWith(ext))) {
+      onError(`Please upload a file of type ${extensions.join(', ')}`);
       return;
     }
 
@@ -30,7 +38,7 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     reader.onload = (e) => {
       const content = e.target?.result as string;
       if (content) {
-        onFileUpload(content);
+        onFileUpload(content, file.name);
       } else {
         onError('Failed to read file content');
       }
@@ -41,23 +49,42 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     };
 
     reader.readAsText(file);
-  }, [onFileUpload, onError]);
+  }, [accept, onFileUpload, onError]);
+
+  const handleFileChange = useCallback((event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) readFile(file);
+  }, [readFile]);
 
   const handleDrop = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     const file = event.dataTransfer.files[0];
-    if (file) {
-      const fakeEvent = {
-        target: { files: [file] }
-      } as React.ChangeEvent<HTMLInputElement>;
-      handleFileChange(fakeEvent);
-    }
-  }, [handleFileChange]);
+    if (file) readFile(file);
+  }, [readFile]);
 
   const handleDragOver = useCallback((event: React.DragEvent<HTMLDivElement>) => {
     event.preventDefault();
   }, []);
 
+  if (compact) {
+    return (
+      <div
+        className={`relative inline-flex items-center space-x-2 border border-dashed border-gray-300 rounded-lg px-4 py-2 text-sm text-gray-700 hover:border-blue-400 hover:bg-blue-50/50 transition-colors duration-200 ${className}`}
+        onDrop={handleDrop}
+        onDragOver={handleDragOver}
+      >
+        <input
+          type="file"
+          accept={accept}
+          onChange={handleFileChange}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        />
+        <Upload className="w-4 h-4 text-blue-600" />
+        <span className="font-medium">{title}</span>
+      </div>
+    );
+  }
+
   return (
     <div
       className={`relative border-2 border-dashed border-gray-300 rounded-lg p-8 text-center hover:border-blue-400 transition-colors duration-200 ${className}`}
@@ -78,15 +105,15 @@ export const FileUpload: React.FC<FileUploadProps> = ({
         
         <div>
           <h3 className="text-lg font-semibold text-gray-900 mb-2">
-            Upload Course Prerequisites
+            {title}
           </h3>
           <p className="text-gray-600 mb-4">
-            Drag and drop your CSV file here, or click to browse
+            Drag and drop your file here, or click to browse
           </p>
           
           <div className="flex items-center justify-center space-x-2 text-sm text-gray-500">
             <FileText className="w-4 h-4" />
-            <span>CSV files only</span>
+            <span>{formatHint}</span>
           </div>
         </div>
         
@@ -94,10 +121,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           <div className="flex items-start space-x-2">
             <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
             <div>
-              <p className="font-medium mb-1">Expected CSV format:</p>
-              <p>prerequisite,course</p>
-              <p>MATH101,MATH102</p>
-              <p>CS101,CS102</p>
+              <p className="font-medium mb-1">Example CSV format:</p>
+              {formatExample.map((line, index) => (
+                <p key={index}>{line}</p>
+              ))}
             </div>
           </div>
         </div>
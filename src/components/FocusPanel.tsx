@@ -0,0 +1,115 @@
+// Ordered prerequisite and dependent closures of the focused course
+
+import React from 'react';
+import { ArrowDown, ArrowUp, Crosshair, X } from 'lucide-react';
+import { CourseNode } from '../types/Course';
+import { CourseClosure } from '../algorithms/Closure';
+
+interface FocusPanelProps {
+  course: CourseNode | null;
+  closure: CourseClosure | null;
+  nodesById: Map<string, CourseNode>;
+  onSelectCourse: (courseId: string | null) => void;
+}
+
+interface ClosureListProps {
+  title: string;
+  icon: React.ReactNode;
+  courseIds: string[];
+  nodesById: Map<string, CourseNode>;
+  accent: string;
+  onSelectCourse: (courseId: string) => void;
+}
+
+const totalCredits = (courseIds: string[], nodesById: Map<string, CourseNode>) =>
+  courseIds.reduce((sum, id) => sum + (nodesById.get(id)?.credits ?? 0), 0);
+
+const ClosureList: React.FC<ClosureListProps> = ({ title, icon, courseIds, nodesById, accent, onSelectCourse }) => (
+  <div>
+    <div className="flex items-center justify-between mb-2">
+      <h4 className="font-medium text-gray-900 flex items-center">
+        {icon}
+        {title}
+      </h4>
+      <span className="text-xs text-gray-500">
+        {courseIds.length} course{courseIds.length === 1 ? '' : 's'} • {totalCredits(courseIds, nodesById)} credits
+      </span>
+    </div>
+    {courseIds.length === 0 ? (
+      <p className="text-sm text-gray-500">None</p>
+    ) : (
+      <ol className="space-y-1 max-h-64 overflow-y-auto">
+        {courseIds.map((id, index) => {
+          const node = nodesById.get(id);
+          return (
+            <li key={id}>
+              <button
+                onClick={() => onSelectCourse(id)}
+                className="w-full flex items-center justify-between text-left px-2 py-1 rounded hover:bg-white/80 text-sm"
+              >
+                <span>
+                  <span className="text-gray-400 mr-2">{index + 1}.</span>
+                  <span className={`font-mono mr-2 ${accent}`}>{id}</span>
+                  <span className="text-gray-700">{node?.name}</span>
+                </span>
+                <span className="text-xs text-gray-500">{node?.credits ?? 0} cr</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    )}
+  </div>
+);
+
+export const FocusPanel: React.FC<FocusPanelProps> = ({ course, closure, nodesById, onSelectCourse }) => (
+  <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+        <Crosshair className="w-5 h-5 mr-2" />
+        {course ? `Focus: ${course.id} ${course.name}` : 'Focus Mode'}
+      </h3>
+      {course && (
+        <button
+          onClick={() => onSelectCourse(null)}
+          className="text-sm text-gray-500 hover:text-gray-700 flex items-center"
+        >
+          <X className="w-4 h-4 mr-1" />
+          Clear
+        </button>
+      )}
+    </div>
+
+    {!course || !closure ? (
+      <p className="text-sm text-gray-600">
+        Select a course in the graph or the ranking list to see everything it requires and everything it unlocks.
+      </p>
+    ) : (
+      <>
+        <div className="grid md:grid-cols-2 gap-6">
+          <ClosureList
+            title="Must take before"
+            icon={<ArrowUp className="w-4 h-4 mr-2 text-blue-600" />}
+            courseIds={closure.ancestors}
+            nodesById={nodesById}
+            accent="text-blue-700"
+            onSelectCourse={onSelectCourse}
+          />
+          <ClosureList
+            title="Unlocks"
+            icon={<ArrowDown className="w-4 h-4 mr-2 text-emerald-600" />}
+            courseIds={closure.descendants}
+            nodesById={nodesById}
+            accent="text-emerald-700"
+            onSelectCourse={onSelectCourse}
+          />
+        </div>
+        {closure.hasAlternatives && (
+          <p className="text-xs text-gray-500 mt-4">
+            The prerequisites include alternatives where only one option is needed, so the credit total is an upper bound.
+          </p>
+        )}
+      </>
+    )}
+  </div>
+);
@@ -0,0 +1,75 @@
+// Per-row diagnostics report for imported files
+
+import React from 'react';
+import { AlertCircle, AlertTriangle, X } from 'lucide-react';
+import { ParseDiagnostic } from '../utils/csvFormat';
+
+interface ParseReportProps {
+  title: string;
+  diagnostics: ParseDiagnostic[];
+  onDismiss?: () => void;
+  maxItems?: number;
+}
+
+export const ParseReport: React.FC<ParseReportProps> = ({
+  title,
+  diagnostics,
+  onDismiss,
+  maxItems = 50
+}) => {
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const visible = [...diagnostics]
+    .sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+    .slice(0, maxItems);
+  const hiddenCount = diagnostics.length - visible.length;
+
+  return (
+    <div className={`rounded-lg p-4 border ${
+      errorCount > 0 ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+    }`}>
+      <div className="flex items-start justify-between">
+        <div>
+          <p className={`font-medium ${errorCount > 0 ? 'text-red-700' : 'text-amber-700'}`}>
+            {title}
+          </p>
+          <p className="text-sm text-gray-600 mt-0.5">
+            {errorCount} error{errorCount === 1 ? '' : 's'} • {warningCount} warning{warningCount === 1 ? '' : 's'}
+          </p>
+        </div>
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="p-1 text-gray-500 hover:text-gray-700 hover:bg-white/60 rounded"
+            aria-label="Dismiss report"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      <ul className="mt-3 space-y-1 max-h-60 overflow-y-auto text-sm">
+        {visible.map((diagnostic, index) => (
+          <li key={index} className="flex items-start space-x-2">
+            {diagnostic.severity === 'error' ? (
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-500" />
+            ) : (
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-500" />
+            )}
+            <span className="text-gray-700">
+              {diagnostic.line !== undefined && (
+                <span className="font-mono text-gray-500 mr-2">Line {diagnostic.line}:</span>
+              )}
+              {diagnostic.message}
+            </span>
+          </li>
+        ))}
+      </ul>
+      {hiddenCount > 0 && (
+        <p className="text-xs text-gray-500 mt-2">…and {hiddenCount} more</p>
+      )}
+    </div>
+  );
+};
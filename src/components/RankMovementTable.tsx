@@ -0,0 +1,88 @@
+// Table of courses whose rank moved between two rankings
+
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp } from 'lucide-react';
+import { CourseMovement } from '../algorithms/CurriculumDiff';
+
+interface RankMovementTableProps {
+  /** Movements to list, in display order */
+  movements: CourseMovement[];
+  formatScore: (score: number) => string;
+  selectedCourseId: string | null;
+  onSelectCourse: (courseId: string) => void;
+  previousLabel?: string;
+  currentLabel?: string;
+}
+
+const MOVEMENT_PREVIEW = 20;
+
+export const RankMovementTable: React.FC<RankMovementTableProps> = ({
+  movements,
+  formatScore,
+  selectedCourseId,
+  onSelectCourse,
+  previousLabel = 'Previous',
+  currentLabel = 'Current'
+}) => {
+  const [showAll, setShowAll] = useState(false);
+
+  if (movements.length === 0) {
+    return <p className="text-sm text-gray-500">No course changed rank.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 text-left text-gray-600">
+            <th className="py-2 pr-4 font-medium">Course</th>
+            <th className="py-2 pr-4 font-medium text-right">{previousLabel}</th>
+            <th className="py-2 pr-4 font-medium text-right">{currentLabel}</th>
+            <th className="py-2 pr-4 font-medium text-right">Change</th>
+            <th className="py-2 pr-4 font-medium text-right">Score</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(showAll ? movements : movements.slice(0, MOVEMENT_PREVIEW)).map(movement => (
+            <tr
+              key={movement.courseId}
+              onClick={() => onSelectCourse(movement.courseId)}
+              className={`border-b border-gray-100 cursor-pointer hover:bg-white/60 ${
+                movement.courseId === selectedCourseId ? 'bg-amber-50' : ''
+              }`}
+            >
+              <td className="py-2 pr-4 font-mono text-gray-700">{movement.courseId}</td>
+              <td className="py-2 pr-4 text-right">{movement.previousRank ?? '—'}</td>
+              <td className="py-2 pr-4 text-right">{movement.currentRank ?? '—'}</td>
+              <td className="py-2 pr-4 text-right">
+                {movement.rankChange === undefined ? (
+                  <span className={movement.currentRank === undefined ? 'text-rose-600' : 'text-green-600'}>
+                    {movement.currentRank === undefined ? 'removed' : 'new'}
+                  </span>
+                ) : (
+                  <span className={`inline-flex items-center ${movement.rankChange > 0 ? 'text-green-600' : 'text-rose-600'}`}>
+                    {movement.rankChange > 0 ? <ArrowUp className="w-3 h-3 mr-1" /> : <ArrowDown className="w-3 h-3 mr-1" />}
+                    {Math.abs(movement.rankChange)}
+                  </span>
+                )}
+              </td>
+              <td className="py-2 pr-4 text-right font-mono text-gray-600">
+                {movement.previousScore !== undefined ? formatScore(movement.previousScore) : '—'}
+                {' → '}
+                {movement.currentScore !== undefined ? formatScore(movement.currentScore) : '—'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {movements.length > MOVEMENT_PREVIEW && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 text-sm text-blue-600 hover:text-blue-800"
+        >
+          {showAll ? 'Show fewer' : `Show all ${movements.length} courses`}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,212 @@
+// Term-by-term study plan with a timeline of the scheduled courses
+
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowRight, CalendarDays, CheckCircle, Clock, Route } from 'lucide-react';
+import { Course, Prerequisite } from '../types/Course';
+import { UnschedulableReason } from '../algorithms/StudyPlan';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+import { TargetCoursePicker } from './TargetCoursePicker';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+
+interface StudyPlanViewProps {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+const DEFAULT_MAX_CREDITS = 15;
+
+const UNSCHEDULABLE_REASONS: Record<UnschedulableReason, string> = {
+  cycle: 'Part of a prerequisite cycle',
+  credits: 'Exceeds the credit limit',
+  blocked: 'Requires an unschedulable course'
+};
+
+export const StudyPlanView: React.FC<StudyPlanViewProps> = ({ courses, prerequisites }) => {
+  const [maxCredits, setMaxCredits] = useState(DEFAULT_MAX_CREDITS);
+  const [completed, setCompleted] = useState<string[]>([]);
+
+  // Completed courses that are no longer in the dataset are left out of the plan
+  const activeCompleted = useMemo(() => {
+    const known = new Set(courses.map(course => course.id));
+    return completed.filter(id => known.has(id));
+  }, [courses, completed]);
+
+  // Planned in the analysis worker; the previous plan stays on screen until the new one is ready
+  const planTask = useMemo(
+    () => ({
+      type: 'studyPlan' as const,
+      input: { courses, prerequisites, options: { maxCreditsPerTerm: maxCredits, completed: activeCompleted } }
+    }),
+    [courses, prerequisites, maxCredits, activeCompleted]
+  );
+  const planning = useAnalysisTask(planTask);
+  const plan = planning.result;
+
+  const courseById = useMemo(() => new Map(courses.map(course => [course.id, course])), [courses]);
+  const criticalCourses = useMemo(() => new Set(plan?.criticalPath), [plan]);
+  const creditBound = plan && maxCredits > 0 ? Math.ceil(plan.totalCredits / maxCredits) : 0;
+
+  const markCompleted = (courseId: string) => {
+    setCompleted(current => (current.includes(courseId) ? current : [...current, courseId]));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Controls */}
+      <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50 space-y-4">
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+          <div className="flex items-center space-x-2">
+            <Clock className="w-5 h-5 text-gray-500" />
+            <label className="text-sm font-medium text-gray-700">Max Credits per Term:</label>
+            <input
+              type="number"
+              min="1"
+              max="60"
+              value={maxCredits}
+              onChange={(e) => setMaxCredits(Math.max(1, Number(e.target.value) || 1))}
+              className="border border-gray-300 rounded-lg px-3 py-1 w-20 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+        <TargetCoursePicker
+          courses={courses}
+          selected={activeCompleted}
+          onChange={setCompleted}
+          label="Completed Courses:"
+          icon={<CheckCircle className="w-5 h-5 text-gray-500" />}
+        />
+        {planning.progress && <AnalysisProgressBar progress={planning.progress} />}
+        {planning.error && <p className="text-sm text-red-600">Planning failed: {planning.error}</p>}
+      </div>
+
+      {plan && (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Terms in Plan</div>
+              <div className="text-2xl font-bold text-gray-900">{plan.terms.length}</div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Minimum Terms</div>
+              <div className="text-2xl font-bold text-gray-900">{plan.minimumTerms}</div>
+              <div className="text-xs text-gray-500">critical path, without a credit limit</div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Credits Remaining</div>
+              <div className="text-2xl font-bold text-gray-900">{plan.totalCredits}</div>
+              <div className="text-xs text-gray-500">at least {creditBound} terms at {maxCredits} per term</div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Courses Completed</div>
+              <div className="text-2xl font-bold text-gray-900">{activeCompleted.length}</div>
+              <div className="text-xs text-gray-500">of {courses.length}</div>
+            </div>
+          </div>
+
+          {/* Critical Path */}
+          {plan.criticalPath.length > 0 && (
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+                <Route className="w-5 h-5 mr-2" />
+                Critical Path
+              </h3>
+              <p className="text-sm text-gray-600 mb-3">
+                The longest chain of remaining prerequisites. No schedule can finish in fewer
+                than {plan.minimumTerms} term{plan.minimumTerms === 1 ? '' : 's'}.
+              </p>
+              <div className="flex flex-wrap items-center gap-2">
+                {plan.criticalPath.map((id, index) => (
+                  <React.Fragment key={id}>
+                    {index > 0 && <ArrowRight className="w-4 h-4 text-gray-400" />}
+                    <span
+                      className="px-2 py-1 bg-amber-50 border border-amber-200 rounded-lg text-sm font-mono text-amber-800"
+                      title={courseById.get(id)?.name}
+                    >
+                      {id}
+                    </span>
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Timeline */}
+          <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+              <CalendarDays className="w-5 h-5 mr-2" />
+              Term-by-Term Plan
+            </h3>
+            {plan.terms.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                {plan.unschedulable.length > 0 ? 'No remaining course can be scheduled.' : 'All courses are completed.'}
+              </p>
+            ) : (
+              <div className="flex space-x-4 overflow-x-auto pb-2">
+                {plan.terms.map(term => (
+                  <div key={term.term} className="flex-shrink-0 w-56">
+                    <div className="flex items-baseline justify-between mb-1">
+                      <h4 className="font-medium text-gray-900">Term {term.term}</h4>
+                      <span className="text-xs text-gray-500">{term.credits}/{maxCredits} credits</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-1.5 mb-3">
+                      <div
+                        className="bg-gradient-to-r from-blue-500 to-purple-600 h-1.5 rounded-full"
+                        style={{ width: `${Math.min((term.credits / maxCredits) * 100, 100)}%` }}
+                      />
+                    </div>
+                    <ul className="space-y-2">
+                      {term.courses.map(id => {
+                        // A plan made before the latest edit may still list a deleted course
+                        const course = courseById.get(id);
+                        const critical = criticalCourses.has(id);
+                        return (
+                          <li
+                            key={id}
+                            className={`group p-2 rounded-lg border text-sm ${
+                              critical ? 'bg-amber-50 border-amber-200' : 'bg-white/70 border-gray-200'
+                            }`}
+                          >
+                            <div className="flex items-center justify-between">
+                              <span className="font-mono text-gray-700">{id}</span>
+                              <span className="text-xs text-gray-500">{course?.credits ?? 0} cr</span>
+                            </div>
+                            <div className="text-gray-900 truncate" title={course?.name}>{course?.name}</div>
+                            <button
+                              onClick={() => markCompleted(id)}
+                              className="hidden group-hover:block mt-1 text-xs text-blue-600 hover:text-blue-800"
+                            >
+                              Mark completed
+                            </button>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Problems */}
+          {plan.unschedulable.length > 0 && (
+            <div className="bg-amber-50/80 backdrop-blur-sm rounded-xl p-6 border border-amber-200">
+              <h3 className="text-lg font-semibold text-amber-900 mb-3 flex items-center">
+                <AlertTriangle className="w-5 h-5 mr-2" />
+                Courses Left Out of the Plan
+              </h3>
+              <ul className="space-y-1 text-sm text-amber-900">
+                {plan.unschedulable.map(({ courseId, reason }) => (
+                  <li key={courseId}>
+                    <span className="font-mono">{courseId}</span>
+                    <span className="text-amber-700"> — {UNSCHEDULABLE_REASONS[reason]}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
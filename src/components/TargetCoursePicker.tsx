@@ -0,0 +1,103 @@
+// Searchable picker for a set of courses, such as the targets that seed personalized PageRank
+
+import React, { useMemo, useState } from 'react';
+import { Target, X } from 'lucide-react';
+import { Course } from '../types/Course';
+
+interface TargetCoursePickerProps {
+  courses: Course[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  label?: string;
+  icon?: React.ReactNode;
+}
+
+export const TargetCoursePicker: React.FC<TargetCoursePickerProps> = ({
+  courses,
+  selected,
+  onChange,
+  label = 'Focus on Target Courses:',
+  icon = <Target className="w-5 h-5 text-gray-500" />
+}) => {
+  const [query, setQuery] = useState('');
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    return courses
+      .filter(course => !selected.includes(course.id))
+      .filter(course =>
+        course.id.toLowerCase().includes(needle) || course.name.toLowerCase().includes(needle)
+      )
+      .slice(0, 8);
+  }, [courses, selected, query]);
+
+  const courseName = (id: string) => courses.find(course => course.id === id)?.name ?? id;
+
+  const addTarget = (id: string) => {
+    onChange([...selected, id]);
+    setQuery('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        {icon}
+        <label className="text-sm font-medium text-gray-700">{label}</label>
+        <div className="relative">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by ID or name"
+            className="border border-gray-300 rounded-lg px-3 py-1 w-56 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          {matches.length > 0 && (
+            <ul className="absolute z-10 mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+              {matches.map(course => (
+                <li key={course.id}>
+                  <button
+                    onClick={() => addTarget(course.id)}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-blue-50"
+                  >
+                    <span className="font-mono text-gray-600 mr-2">{course.id}</span>
+                    <span className="text-gray-900">{course.name}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        {selected.length > 0 && (
+          <button
+            onClick={() => onChange([])}
+            className="text-sm text-gray-500 hover:text-gray-700"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {selected.map(id => (
+            <span
+              key={id}
+              className="inline-flex items-center px-2 py-1 bg-indigo-50 border border-indigo-200 rounded-full text-xs text-indigo-700"
+              title={courseName(id)}
+            >
+              {id}
+              <button
+                onClick={() => onChange(selected.filter(targetId => targetId !== id))}
+                className="ml-1 hover:text-indigo-900"
+                aria-label={`Remove ${id}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,379 @@
+// What-if analysis: switch prerequisites or courses off in a scratch copy and see the impact
+
+import React, { useMemo, useState } from 'react';
+import { ArrowRight, FlaskConical, Network, Plus, RotateCcw, Route, Search, Unlink, X } from 'lucide-react';
+import { Course, Prerequisite } from '../types/Course';
+import { CurriculumDiff } from '../algorithms/CurriculumDiff';
+import { CriticalPathSummary, WhatIfAnalysis, WhatIfScenario, whatIfEdgeKey } from '../algorithms/WhatIf';
+import { CourseGraph } from './CourseGraph';
+import { RankMovementTable } from './RankMovementTable';
+import { AnalysisProgressBar } from './AnalysisProgressBar';
+import { useAnalysisTask } from '../workers/useAnalysisTask';
+
+interface WhatIfPanelProps {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+const inputClass =
+  'border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500';
+
+const formatScore = (score: number) => score.toFixed(4);
+
+const toggle = (set: Set<string>, id: string) => {
+  const next = new Set(set);
+  if (next.has(id)) next.delete(id);
+  else next.add(id);
+  return next;
+};
+
+const CriticalPathChips: React.FC<{ label: string; summary: CriticalPathSummary }> = ({ label, summary }) => (
+  <div>
+    <div className="text-sm text-gray-600 mb-2">
+      {label}: <span className="font-semibold text-gray-900">{summary.terms}</span> term{summary.terms === 1 ? '' : 's'}
+    </div>
+    <div className="flex flex-wrap items-center gap-2">
+      {summary.path.map((id, index) => (
+        <React.Fragment key={id}>
+          {index > 0 && <ArrowRight className="w-4 h-4 text-gray-400" />}
+          <span className="px-2 py-1 bg-amber-50 border border-amber-200 rounded-lg text-sm font-mono text-amber-800">
+            {id}
+          </span>
+        </React.Fragment>
+      ))}
+    </div>
+  </div>
+);
+
+export const WhatIfPanel: React.FC<WhatIfPanelProps> = ({ courses, prerequisites }) => {
+  const [scenario, setScenario] = useState<WhatIfScenario>({
+    disabledEdges: new Set(),
+    disabledCourses: new Set(),
+    addedEdges: []
+  });
+  const [search, setSearch] = useState('');
+  const [newEdge, setNewEdge] = useState({ prerequisite: '', course: '' });
+  const [edgeError, setEdgeError] = useState('');
+  const [selectedCourseId, setSelectedCourseId] = useState<string | null>(null);
+
+  // Only switches that still match the loaded dataset count
+  const activeScenario = useMemo<WhatIfScenario>(() => {
+    const courseIds = new Set(courses.map(course => course.id));
+    const edgeKeys = new Set(prerequisites.map(whatIfEdgeKey));
+    const baselinePairs = new Set(prerequisites.map(edge => `${edge.prerequisite}->${edge.course}`));
+    return {
+      disabledEdges: new Set([...scenario.disabledEdges].filter(key => edgeKeys.has(key))),
+      disabledCourses: new Set([...scenario.disabledCourses].filter(id => courseIds.has(id))),
+      addedEdges: scenario.addedEdges.filter(
+        edge => courseIds.has(edge.prerequisite) && courseIds.has(edge.course) && !baselinePairs.has(`${edge.prerequisite}->${edge.course}`)
+      )
+    };
+  }, [scenario, courses, prerequisites]);
+
+  // Evaluated in the analysis worker; the last result stays on screen until the new one is ready
+  const whatIfTask = useMemo(
+    () => (WhatIfAnalysis.isEmpty(activeScenario)
+      ? null
+      : { type: 'whatIf' as const, input: { baseline: { courses, prerequisites }, scenario: activeScenario } }),
+    [activeScenario, courses, prerequisites]
+  );
+  const analysis = useAnalysisTask(whatIfTask);
+  const result = analysis.result;
+  const mergedGraph = useMemo(() => (result ? CurriculumDiff.mergedGraph(result.diff) : null), [result]);
+  const highlight = useMemo(() => (result ? CurriculumDiff.highlight(result.diff) : null), [result]);
+  const movements = useMemo(
+    () => (result
+      ? result.diff.movements
+        .filter(movement => movement.rankChange !== 0)
+        .sort((a, b) => Math.abs(b.rankChange ?? -1) - Math.abs(a.rankChange ?? -1))
+      : []),
+    [result]
+  );
+
+  const query = search.trim().toLowerCase();
+  const matches = (id: string) => !query || id.toLowerCase().includes(query);
+  const listedEdges = prerequisites.filter(edge => matches(edge.prerequisite) || matches(edge.course));
+  const listedCourses = courses.filter(course => matches(course.id) || course.name.toLowerCase().includes(query));
+  const sortedIds = useMemo(() => courses.map(course => course.id).sort(), [courses]);
+
+  const addEdge = (e: React.FormEvent) => {
+    e.preventDefault();
+    const edge: Prerequisite = { prerequisite: newEdge.prerequisite, course: newEdge.course };
+    if (edge.prerequisite === edge.course) {
+      setEdgeError('A course cannot be its own prerequisite.');
+      return;
+    }
+    const samePair = (existing: Prerequisite) =>
+      existing.prerequisite === edge.prerequisite && existing.course === edge.course;
+    if (prerequisites.some(samePair) || scenario.addedEdges.some(samePair)) {
+      setEdgeError(`${edge.prerequisite} is already a prerequisite of ${edge.course}.`);
+      return;
+    }
+    setEdgeError('');
+    setScenario({ ...scenario, addedEdges: [...scenario.addedEdges, edge] });
+    setNewEdge({ prerequisite: '', course: '' });
+  };
+
+  const termChange = result ? result.scenarioCriticalPath.terms - result.baselineCriticalPath.terms : 0;
+
+  return (
+    <div className="space-y-6">
+      {/* Scenario */}
+      <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <FlaskConical className="w-5 h-5 mr-2" />
+              What-If Analysis
+            </h3>
+            <p className="text-sm text-gray-600 mt-1">
+              Switch prerequisites or courses off, or add hypothetical prerequisites. The scenario is a scratch
+              copy: the loaded dataset is not changed. Rankings use PageRank (d=0.85).
+            </p>
+          </div>
+          <button
+            onClick={() => setScenario({ disabledEdges: new Set(), disabledCourses: new Set(), addedEdges: [] })}
+            disabled={WhatIfAnalysis.isEmpty(activeScenario)}
+            className="flex items-center px-3 py-2 text-sm text-gray-700 hover:bg-gray-50 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Reset Scenario
+          </button>
+        </div>
+
+        <div className="relative mb-4">
+          <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Filter by course ID"
+            className={`${inputClass} w-full pl-9`}
+          />
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-6">
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">
+              Prerequisites ({prerequisites.length - activeScenario.disabledEdges.size} of {prerequisites.length} on)
+            </h4>
+            <ul className="max-h-72 overflow-y-auto space-y-1">
+              {listedEdges.map((edge, index) => {
+                const key = whatIfEdgeKey(edge);
+                const coursesOff = activeScenario.disabledCourses.has(edge.prerequisite) ||
+                  activeScenario.disabledCourses.has(edge.course);
+                return (
+                  <li key={`${key}-${index}`}>
+                    <label className={`flex items-center text-sm font-mono ${coursesOff ? 'text-gray-400' : 'text-gray-700'}`}>
+                      <input
+                        type="checkbox"
+                        checked={!scenario.disabledEdges.has(key) && !coursesOff}
+                        disabled={coursesOff}
+                        onChange={() => setScenario({ ...scenario, disabledEdges: toggle(scenario.disabledEdges, key) })}
+                        className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                      />
+                      {edge.prerequisite} → {edge.course}
+                      {edge.kind === 'corequisite' && <span className="ml-1 text-xs font-sans text-gray-500">(co)</span>}
+                    </label>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">
+              Courses ({courses.length - activeScenario.disabledCourses.size} of {courses.length} on)
+            </h4>
+            <ul className="max-h-72 overflow-y-auto space-y-1">
+              {listedCourses.map(course => (
+                <li key={course.id}>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={!scenario.disabledCourses.has(course.id)}
+                      onChange={() => setScenario({ ...scenario, disabledCourses: toggle(scenario.disabledCourses, course.id) })}
+                      className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span className="font-mono mr-2">{course.id}</span>
+                    <span className="truncate text-gray-500">{course.name}</span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Hypothetical Prerequisites</h4>
+            <form onSubmit={addEdge} className="flex flex-wrap items-center gap-2">
+              <select
+                value={newEdge.prerequisite}
+                onChange={(e) => setNewEdge({ ...newEdge, prerequisite: e.target.value })}
+                className={`${inputClass} flex-1`}
+              >
+                <option value="">Prerequisite…</option>
+                {sortedIds.map(id => <option key={id} value={id}>{id}</option>)}
+              </select>
+              <ArrowRight className="w-4 h-4 text-gray-400" />
+              <select
+                value={newEdge.course}
+                onChange={(e) => setNewEdge({ ...newEdge, course: e.target.value })}
+                className={`${inputClass} flex-1`}
+              >
+                <option value="">Course…</option>
+                {sortedIds.map(id => <option key={id} value={id}>{id}</option>)}
+              </select>
+              <button
+                type="submit"
+                disabled={!newEdge.prerequisite || !newEdge.course}
+                className="p-2 text-white bg-blue-600 hover:bg-blue-700 rounded-lg disabled:opacity-40 disabled:cursor-not-allowed"
+                aria-label="Add hypothetical prerequisite"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </form>
+            {edgeError && <p className="text-sm text-red-600 mt-2">{edgeError}</p>}
+            <ul className="mt-3 space-y-1">
+              {activeScenario.addedEdges.map(edge => (
+                <li key={whatIfEdgeKey(edge)} className="flex items-center justify-between text-sm font-mono text-green-700">
+                  {edge.prerequisite} → {edge.course}
+                  <button
+                    onClick={() => setScenario({
+                      ...scenario,
+                      addedEdges: scenario.addedEdges.filter(existing => whatIfEdgeKey(existing) !== whatIfEdgeKey(edge))
+                    })}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${edge.prerequisite} → ${edge.course}`}
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        {analysis.progress && <AnalysisProgressBar progress={analysis.progress} className="mt-4" />}
+        {analysis.error && <p className="text-sm text-red-600 mt-4">Analysis failed: {analysis.error}</p>}
+      </div>
+
+      {!result ? (
+        !whatIfTask && (
+          <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50 text-sm text-gray-500">
+            Switch something off or add a prerequisite to see its impact.
+          </div>
+        )
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Minimum Terms</div>
+              <div className="text-2xl font-bold text-gray-900">
+                {result.baselineCriticalPath.terms} → {result.scenarioCriticalPath.terms}
+              </div>
+              <div className={`text-xs ${termChange < 0 ? 'text-green-600' : termChange > 0 ? 'text-rose-600' : 'text-gray-500'}`}>
+                {termChange === 0 ? 'Critical path unchanged' : `${termChange > 0 ? '+' : '−'}${Math.abs(termChange)} term${Math.abs(termChange) === 1 ? '' : 's'}`}
+              </div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Newly Disconnected</div>
+              <div className={`text-2xl font-bold ${result.newlyDisconnected.length > 0 ? 'text-rose-600' : 'text-gray-900'}`}>
+                {result.newlyDisconnected.length}
+              </div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Courses Moved Up</div>
+              <div className="text-2xl font-bold text-green-600">
+                {result.diff.movements.filter(movement => (movement.rankChange ?? 0) > 0).length}
+              </div>
+            </div>
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-4 border border-white/50">
+              <div className="text-sm text-gray-600">Courses Moved Down</div>
+              <div className="text-2xl font-bold text-rose-600">
+                {result.diff.movements.filter(movement => (movement.rankChange ?? 0) < 0).length}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-6">
+            {/* Critical path */}
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50 space-y-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Route className="w-5 h-5 mr-2" />
+                Critical Path
+              </h3>
+              <CriticalPathChips label="Baseline" summary={result.baselineCriticalPath} />
+              <CriticalPathChips label="Scenario" summary={result.scenarioCriticalPath} />
+            </div>
+
+            {/* Disconnected courses */}
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+              <h3 className="text-lg font-semibold text-gray-900 mb-2 flex items-center">
+                <Unlink className="w-5 h-5 mr-2" />
+                Newly Disconnected Courses
+              </h3>
+              <p className="text-sm text-gray-600 mb-3">
+                Courses that lost all their prerequisite links, or were cut off from the main body of the curriculum.
+              </p>
+              {result.newlyDisconnected.length === 0 ? (
+                <p className="text-sm text-gray-500">None</p>
+              ) : (
+                <ul className="space-y-1 max-h-60 overflow-y-auto">
+                  {result.newlyDisconnected.map(id => (
+                    <li key={id}>
+                      <button onClick={() => setSelectedCourseId(id)} className="text-sm text-left hover:text-blue-600">
+                        <span className="font-mono text-gray-600 mr-2">{id}</span>
+                        <span className="text-gray-900">{courses.find(course => course.id === id)?.name}</span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+
+          {/* Graph */}
+          {mergedGraph && (
+            <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                  <Network className="w-5 h-5 mr-2" />
+                  Scenario Graph
+                </h3>
+                <div className="flex items-center space-x-4 text-xs text-gray-600">
+                  <span className="flex items-center">
+                    <span className="w-6 h-0.5 bg-green-600 mr-2" />Added
+                  </span>
+                  <span className="flex items-center">
+                    <span className="w-6 border-t-2 border-dashed border-rose-600 mr-2" />Switched off
+                  </span>
+                </div>
+              </div>
+              <CourseGraph
+                graph={mergedGraph}
+                diff={highlight}
+                formatScore={formatScore}
+                selectedCourseId={selectedCourseId}
+                onSelectCourse={setSelectedCourseId}
+                exportFileName="what-if"
+              />
+            </div>
+          )}
+
+          {/* Rank movement */}
+          <div className="bg-white/60 backdrop-blur-sm rounded-xl p-6 border border-white/50">
+            <h3 className="text-lg font-semibold text-gray-900 mb-4">Rank Changes</h3>
+            <RankMovementTable
+              movements={movements}
+              formatScore={formatScore}
+              selectedCourseId={selectedCourseId}
+              onSelectCourse={setSelectedCourseId}
+              previousLabel="Baseline"
+              currentLabel="Scenario"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -8,25 +8,64 @@ export interface Course {
   credits?: number;
 }
 
+export type RequirementKind = 'prerequisite' | 'corequisite';
+
+export type PrerequisiteStrength = 'required' | 'recommended';
+
 export interface Prerequisite {
   prerequisite: string;
   course: string;
+  /** Corequisites may be taken in the same term as the course; defaults to 'prerequisite' */
+  kind?: RequirementKind;
+  /** Edges into the same course that share a group are alternatives (one-of) */
+  group?: string;
+  /** Recommended prerequisites carry less weight than required ones; defaults to 'required' */
+  strength?: PrerequisiteStrength;
+  /** Relative importance of the edge for weighted ranking; overrides the strength default */
+  weight?: number;
+}
+
+export interface PrerequisiteGroup {
+  course: string;
+  mode: 'all-of' | 'one-of';
+  kind: RequirementKind;
+  /** Course IDs that satisfy the group: all of them, or any one of them */
+  options: string[];
+}
+
+/** A course on a student's transcript */
+export interface TranscriptEntry {
+  courseId: string;
+  /** Term the course was passed in, e.g. "3" or "2024-1"; compared with natural ordering */
+  term?: string;
 }
 
 export interface CourseNode extends Course {
-  pageRank: number;
+  /** Position in the ranking, starting at 1 */
+  rank: number;
+  /** Score from the ranking algorithm that produced the node */
+  score: number;
+  /** Number of courses that list this course as a prerequisite */
   inDegree: number;
+  /** Number of prerequisites of this course */
   outDegree: number;
   prerequisites: string[];
   dependents: string[];
 }
 
 export interface GraphEdge {
+  /** Prerequisite course ID */
   source: string;
+  /** Dependent course ID */
   target: string;
+  kind?: RequirementKind;
+  group?: string;
+  strength?: PrerequisiteStrength;
+  weight?: number;
 }
 
 export interface GraphData {
+  /** Nodes ordered by rank */
   nodes: CourseNode[];
   edges: GraphEdge[];
 }
@@ -35,4 +74,26 @@ export interface PageRankResult {
   courseId: string;
   rank: number;
   score: number;
-}
\ No newline at end of file
+}
+
+export type RankingResult = PageRankResult;
+
+export interface ConvergenceInfo {
+  /** Number of iterations performed */
+  iterations: number;
+  /** L1 distance between the last two iterates */
+  residual: number;
+  converged: boolean;
+  /** Residual after each iteration, in order */
+  residualHistory: number[];
+}
+
+export interface PageRankRun extends ConvergenceInfo {
+  results: PageRankResult[];
+}
+
+export interface RankingRun {
+  results: RankingResult[];
+  /** Present for iterative algorithms */
+  convergence?: ConvergenceInfo;
+}
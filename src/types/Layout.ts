@@ -0,0 +1,30 @@
+// Graph layout types shared by the layout algorithms and the graph view
+
+export type LayoutMode = 'layered' | 'force';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface GraphLayout {
+  /** Node centers keyed by course ID */
+  positions: Map<string, Point>;
+  /**
+   * Intermediate points for edges that span several layers, keyed by
+   * `${prerequisite}->${course}`; edges without an entry are drawn directly
+   */
+  edgeRoutes: Map<string, Point[]>;
+  /** Extent of the layout including padding */
+  width: number;
+  height: number;
+}
+
+export interface LayoutOptions {
+  /** Minimum horizontal distance between neighboring course centers */
+  nodeSpacing?: number;
+  /** Vertical distance between layers */
+  layerSpacing?: number;
+  /** Empty margin around the layout */
+  padding?: number;
+}
@@ -0,0 +1,169 @@
+// RFC 4180 CSV reader with line-level diagnostics
+
+export type CSVDelimiter = ',' | '\t' | ';';
+
+export interface ParseDiagnostic {
+  severity: 'error' | 'warning';
+  /** 1-based line number in the source file, if the issue is tied to a line */
+  line?: number;
+  message: string;
+}
+
+export interface CSVRow {
+  /** 1-based line number on which the row starts */
+  line: number;
+  fields: string[];
+}
+
+export interface CSVReadResult {
+  rows: CSVRow[];
+  delimiter: CSVDelimiter;
+  diagnostics: ParseDiagnostic[];
+}
+
+const CANDIDATE_DELIMITERS: CSVDelimiter[] = [',', '\t', ';'];
+
+export class CSVFormat {
+  /**
+   * Guess the delimiter from the first non-empty line by counting candidate
+   * characters outside of quoted sections. Falls back to a comma.
+   */
+  static detectDelimiter(content: string): CSVDelimiter {
+    const firstLine = CSVFormat.stripBOM(content)
+      .split(/\r\n|\n|\r/)
+      .find(line => line.trim().length > 0) ?? '';
+
+    const counts = new Map<CSVDelimiter, number>(CANDIDATE_DELIMITERS.map(d => [d, 0]));
+    let inQuotes = false;
+    for (const char of firstLine) {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      } else if (!inQuotes && counts.has(char as CSVDelimiter)) {
+        counts.set(char as CSVDelimiter, counts.get(char as CSVDelimiter)! + 1);
+      }
+    }
+
+    let best: CSVDelimiter = ',';
+    counts.forEach((count, delimiter) => {
+      if (count > counts.get(best)!) best = delimiter;
+    });
+    return best;
+  }
+
+  /**
+   * Parse CSV content into rows of fields.
+   * Handles quoted fields, escaped quotes (""), embedded delimiters and line
+   * breaks, CRLF/LF/CR line endings and a leading byte order mark.
+   * Blank lines are skipped; malformed quoting is reported as a diagnostic.
+   */
+  static parse(content: string, delimiter?: CSVDelimiter): CSVReadResult {
+    const text = CSVFormat.stripBOM(content);
+    const activeDelimiter = delimiter ?? CSVFormat.detectDelimiter(text);
+    const rows: CSVRow[] = [];
+    const diagnostics: ParseDiagnostic[] = [];
+
+    let fields: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    let fieldWasQuoted = false;
+    let line = 1;
+    let rowStartLine = 1;
+    let quoteStartLine = 1;
+
+    const endField = () => {
+      fields.push(fieldWasQuoted ? field : field.trim());
+      field = '';
+      fieldWasQuoted = false;
+    };
+
+    const endRow = () => {
+      endField();
+      const isBlank = fields.length === 1 && fields[0] === '';
+      if (!isBlank) {
+        rows.push({ line: rowStartLine, fields });
+      }
+      fields = [];
+    };
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (text[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        if (field.trim() === '' && !fieldWasQuoted) {
+          field = '';
+          inQuotes = true;
+          fieldWasQuoted = true;
+          quoteStartLine = line;
+        } else {
+          diagnostics.push({
+            severity: 'warning',
+            line,
+            message: 'Unexpected quote character inside a field; it was kept as a literal'
+          });
+          field += char;
+        }
+      } else if (char === activeDelimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        endRow();
+        line++;
+        rowStartLine = line;
+      } else if (fieldWasQuoted) {
+        if (char.trim() !== '') {
+          diagnostics.push({
+            severity: 'warning',
+            line,
+            message: 'Unexpected text after a closing quote; it was appended to the field'
+          });
+          fieldWasQuoted = false;
+          field += char;
+        }
+      } else {
+        field += char;
+      }
+    }
+
+    if (inQuotes) {
+      diagnostics.push({
+        severity: 'error',
+        line: quoteStartLine,
+        message: 'Unterminated quoted field; the rest of the file was read as a single value'
+      });
+    }
+    endRow();
+
+    return { rows, delimiter: activeDelimiter, diagnostics };
+  }
+
+  /**
+   * Format a single CSV row, quoting fields that contain the delimiter,
+   * quotes, line breaks or surrounding whitespace
+   */
+  static formatRow(fields: (string | number)[], delimiter: CSVDelimiter = ','): string {
+    return fields.map(value => {
+      const field = String(value);
+      const needsQuotes = field.includes(delimiter) || /["\r\n]/.test(field) || field.trim() !== field;
+      return needsQuotes ? `"${field.replace(/"/g, '""')}"` : field;
+    }).join(delimiter);
+  }
+
+  private static stripBOM(content: string): string {
+    return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+  }
+}
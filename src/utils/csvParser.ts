@@ -1,74 +1,280 @@
-import { Course, Prerequisite } from '../types/Course';
+import { Course, Prerequisite, PrerequisiteStrength, RequirementKind, TranscriptEntry } from '../types/Course';
+import { CSVFormat, CSVRow, ParseDiagnostic } from './csvFormat';
 
 export interface CSVParseResult {
   courses: Course[];
   prerequisites: Prerequisite[];
+  diagnostics: ParseDiagnostic[];
 }
 
+export interface CourseCatalogParseResult {
+  courses: Course[];
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface TranscriptParseResult {
+  entries: TranscriptEntry[];
+  diagnostics: ParseDiagnostic[];
+}
+
+export interface CatalogMergeReport {
+  /** Catalog courses that take part in no prerequisite edge */
+  unlinkedCourses: string[];
+  /** Edge endpoints that have no entry in the catalog */
+  missingFromCatalog: string[];
+}
+
+export interface CatalogMergeResult extends CSVParseResult {
+  report: CatalogMergeReport;
+}
+
+type PrerequisiteColumn = 'prerequisite' | 'course' | 'type' | 'group' | 'weight';
+
+const POSITIONAL_COLUMNS: PrerequisiteColumn[] = ['prerequisite', 'course', 'type', 'group', 'weight'];
+
+// Separators between alternatives in a single prerequisite cell: "MATH101|MATH105" or "MATH101 or MATH105"
+const ALTERNATIVE_SEPARATOR = /\s*\|\s*|\s+or\s+/i;
+
 export class CSVParser {
   /**
    * Parse CSV content for course prerequisites
    * Expected format: prerequisite_id,course_id or prerequisite_name,course_name
+   * Optional columns: type (prerequisite | corequisite), group and weight (a positive
+   * number, or required | recommended). Alternatives can be
+   * written in one cell as "MATH101|MATH105" or "MATH101 or MATH105", or as separate
+   * rows for the same course sharing a group value.
+   * Rows that cannot be used are skipped and reported in `diagnostics`.
    */
   static parsePrerequisites(csvContent: string): CSVParseResult {
-    const lines = csvContent.trim().split('\n');
+    const { rows, diagnostics } = CSVFormat.parse(csvContent);
     const prerequisites: Prerequisite[] = [];
     const courseSet = new Set<string>();
+    // One edge per prerequisite/course pair, as ranking and the graph key edges by the pair
+    const seenEdges = new Map<string, { line: number; group?: string }>();
+
+    if (rows.length === 0) {
+      diagnostics.push({ severity: 'error', message: 'The file contains no data' });
+      return { courses: [], prerequisites, diagnostics };
+    }
 
-    // Skip header if present
-    const dataLines = lines[0].toLowerCase().includes('prerequisite') ? lines.slice(1) : lines;
+    // Skip header if present, mapping columns by name
+    const hasHeader = rows[0].fields.some(field => CSVParser.columnFor(field) === 'prerequisite');
+    const columns = hasHeader
+      ? CSVParser.resolveColumns(rows[0], diagnostics)
+      : new Map(POSITIONAL_COLUMNS.map((column, index) => [column, index]));
+    const dataRows = hasHeader ? rows.slice(1) : rows;
+    const cell = (fields: string[], column: PrerequisiteColumn) => {
+      const index = columns.get(column);
+      return index === undefined ? '' : fields[index] ?? '';
+    };
 
-    dataLines.forEach((line, index) => {
-      const trimmed = line.trim();
-      if (!trimmed) return;
+    dataRows.forEach(({ line, fields }) => {
+      if (fields.length < 2) {
+        diagnostics.push({
+          severity: 'error',
+          line,
+          message: `Expected at least 2 columns (prerequisite,course) but found ${fields.length}; row skipped`
+        });
+        return;
+      }
 
-      const [prerequisite, course] = trimmed.split(',').map(s => s.trim().replace(/"/g, ''));
-      
-      if (prerequisite && course) {
-        prerequisites.push({ prerequisite, course });
+      const prerequisiteCell = cell(fields, 'prerequisite');
+      const course = cell(fields, 'course');
+      if (!prerequisiteCell || !course) {
+        diagnostics.push({
+          severity: 'error',
+          line,
+          message: `Missing ${prerequisiteCell ? 'course' : 'prerequisite'} value; row skipped`
+        });
+        return;
+      }
+
+      if (!hasHeader && fields.length > POSITIONAL_COLUMNS.length) {
+        diagnostics.push({
+          severity: 'warning',
+          line,
+          message: `Ignoring ${fields.length - POSITIONAL_COLUMNS.length} extra column(s)`
+        });
+      }
+
+      const kind = CSVParser.parseKind(cell(fields, 'type'), line, diagnostics);
+      const { strength, weight } = CSVParser.parseWeight(cell(fields, 'weight'), line, diagnostics);
+      const options = prerequisiteCell.split(ALTERNATIVE_SEPARATOR).filter(option => option.length > 0);
+      const explicitGroup = cell(fields, 'group');
+      const group = explicitGroup || (options.length > 1 ? options.join('|') : undefined);
+
+      options.forEach(prerequisite => {
+        const edgeKey = `${prerequisite}\u0000${course}`;
+        const first = seenEdges.get(edgeKey);
+        if (first !== undefined) {
+          diagnostics.push({
+            severity: 'warning',
+            line,
+            message: first.group === group
+              ? `Duplicate prerequisite ${prerequisite} → ${course} (first seen on line ${first.line}); skipped`
+              : `${prerequisite} → ${course} is already listed ${first.group ? `in group "${first.group}"` : 'without a group'} ` +
+                `on line ${first.line}; a course can require another only once, row skipped`
+          });
+          return;
+        }
+        seenEdges.set(edgeKey, { line, group });
+
+        const edge: Prerequisite = { prerequisite, course };
+        if (kind === 'corequisite') edge.kind = kind;
+        if (group !== undefined) edge.group = group;
+        if (strength !== undefined) edge.strength = strength;
+        if (weight !== undefined) edge.weight = weight;
+        prerequisites.push(edge);
         courseSet.add(prerequisite);
         courseSet.add(course);
-      }
+      });
     });
 
+    if (prerequisites.length === 0) {
+      diagnostics.push({ severity: 'error', message: 'No valid prerequisite rows were found' });
+    }
+
     // Generate course objects from unique course IDs
-    const courses: Course[] = Array.from(courseSet).map(courseId => ({
-      id: courseId,
-      name: courseId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
-      description: `Course: ${courseId}`,
-      credits: 3
-    }));
+    const courses: Course[] = Array.from(courseSet).map(courseId => CSVParser.placeholderCourse(courseId));
 
-    return { courses, prerequisites };
+    return { courses, prerequisites, diagnostics };
   }
 
   /**
    * Parse comprehensive course CSV with columns: id,name,description,credits
    */
-  static parseCourses(csvContent: string): Course[] {
-    const lines = csvContent.trim().split('\n');
+  static parseCourses(csvContent: string): CourseCatalogParseResult {
+    const { rows, diagnostics } = CSVFormat.parse(csvContent);
     const courses: Course[] = [];
+    const seenIds = new Map<string, number>();
 
     // Skip header
-    const dataLines = lines.slice(1);
-
-    dataLines.forEach(line => {
-      const trimmed = line.trim();
-      if (!trimmed) return;
-
-      const [id, name, description, credits] = trimmed.split(',').map(s => s.trim().replace(/"/g, ''));
-      
-      if (id && name) {
-        courses.push({
-          id,
-          name,
-          description: description || `Course: ${name}`,
-          credits: credits ? parseInt(credits) : 3
+    const dataRows: CSVRow[] = rows.slice(1);
+
+    dataRows.forEach(({ line, fields }) => {
+      const [id, name, description, credits] = fields;
+
+      if (!id || !name) {
+        diagnostics.push({
+          severity: 'error',
+          line,
+          message: `Missing course ${id ? 'name' : 'id'}; row skipped`
         });
+        return;
       }
+
+      const firstLine = seenIds.get(id);
+      if (firstLine !== undefined) {
+        diagnostics.push({
+          severity: 'warning',
+          line,
+          message: `Duplicate course id ${id} (first seen on line ${firstLine}); row skipped`
+        });
+        return;
+      }
+      seenIds.set(id, line);
+
+      let parsedCredits = 3;
+      if (credits) {
+        const value = Number(credits);
+        if (Number.isFinite(value) && value >= 0) {
+          parsedCredits = value;
+        } else {
+          diagnostics.push({
+            severity: 'warning',
+            line,
+            message: `Invalid credits value "${credits}" for ${id}; defaulting to 3`
+          });
+        }
+      }
+
+      courses.push({
+        id,
+        name,
+        description: description || `Course: ${name}`,
+        credits: parsedCredits
+      });
+    });
+
+    return { courses, diagnostics };
+  }
+
+  /**
+   * Parse a student's completed courses: one course per line with an optional
+   * term (`CS101,2`), a header naming `course` and `term` columns, or a single
+   * comma-separated list of course IDs. Repeated courses keep their first entry.
+   */
+  static parseTranscript(content: string): TranscriptParseResult {
+    const { rows, diagnostics } = CSVFormat.parse(content);
+    const entries: TranscriptEntry[] = [];
+    const seenIds = new Map<string, number>();
+
+    const header = rows[0]?.fields.map(field => field.toLowerCase().replace(/[^a-z]/g, ''));
+    const courseColumn = header?.findIndex(name => ['course', 'courseid', 'id', 'code'].includes(name)) ?? -1;
+    const termColumn = header?.findIndex(name => ['term', 'semester', 'taken'].includes(name)) ?? -1;
+    const hasHeader = courseColumn !== -1;
+
+    const addEntry = (courseId: string, term: string | undefined, line: number) => {
+      if (!courseId) return;
+      const firstLine = seenIds.get(courseId);
+      if (firstLine !== undefined) {
+        diagnostics.push({
+          severity: 'warning',
+          line,
+          message: `Duplicate course ${courseId} (first seen on line ${firstLine}); entry skipped`
+        });
+        return;
+      }
+      seenIds.set(courseId, line);
+      entries.push(term ? { courseId, term } : { courseId });
+    };
+
+    (hasHeader ? rows.slice(1) : rows).forEach(({ line, fields }) => {
+      if (hasHeader) {
+        addEntry(fields[courseColumn] ?? '', termColumn === -1 ? undefined : fields[termColumn], line);
+      } else if (fields.length === 2 && /^\d/.test(fields[1])) {
+        // A second column starting with a digit is a term, not another course
+        addEntry(fields[0], fields[1], line);
+      } else {
+        fields.forEach(field => addEntry(field, undefined, line));
+      }
+    });
+
+    if (entries.length === 0) {
+      diagnostics.push({ severity: 'error', message: 'The transcript contains no courses' });
+    }
+    return { entries, diagnostics };
+  }
+
+  /**
+   * Merge a course catalog into parsed prerequisite data.
+   * Catalog entries replace the generated placeholder courses; every catalog
+   * course is kept even without edges, and edge endpoints missing from the
+   * catalog keep their placeholder so no prerequisite is lost.
+   */
+  static mergeCatalog(catalog: Course[], data: CSVParseResult): CatalogMergeResult {
+    const catalogIds = new Set(catalog.map(course => course.id));
+    const linkedIds = new Set<string>();
+    data.prerequisites.forEach(({ prerequisite, course }) => {
+      linkedIds.add(prerequisite);
+      linkedIds.add(course);
     });
 
-    return courses;
+    const missingFromCatalog = Array.from(linkedIds).filter(id => !catalogIds.has(id));
+    const unlinkedCourses = catalog.filter(course => !linkedIds.has(course.id)).map(course => course.id);
+    const existing = new Map(data.courses.map(course => [course.id, course]));
+
+    const courses: Course[] = [
+      ...catalog,
+      ...missingFromCatalog.map(id => existing.get(id) ?? CSVParser.placeholderCourse(id))
+    ];
+
+    return {
+      courses,
+      prerequisites: data.prerequisites,
+      diagnostics: data.diagnostics,
+      report: { unlinkedCourses, missingFromCatalog }
+    };
   }
 
   /**
@@ -107,17 +313,154 @@ export class CSVParser {
       { prerequisite: 'STATS101', course: 'CS401' }
     ];
 
-    return { courses, prerequisites };
+    return { courses, prerequisites, diagnostics: [] };
+  }
+
+  /**
+   * Identify the prerequisite column a header name refers to, if any
+   */
+  private static columnFor(name: string): PrerequisiteColumn | undefined {
+    const normalized = name.toLowerCase().replace(/[^a-z]/g, '');
+    if (normalized.includes('prerequisite') || normalized.startsWith('prereq')) return 'prerequisite';
+    if (normalized.includes('course')) return 'course';
+    if (['type', 'kind', 'relation', 'requirement'].includes(normalized)) return 'type';
+    if (normalized.startsWith('group')) return 'group';
+    if (['weight', 'strength'].includes(normalized)) return 'weight';
+    return undefined;
+  }
+
+  /**
+   * Map header names to prerequisite columns; unknown columns are reported once
+   */
+  private static resolveColumns(header: CSVRow, diagnostics: ParseDiagnostic[]): Map<PrerequisiteColumn, number> {
+    const columns = new Map<PrerequisiteColumn, number>();
+    const ignored: string[] = [];
+
+    header.fields.forEach((name, index) => {
+      const column = CSVParser.columnFor(name);
+      if (column && !columns.has(column)) {
+        columns.set(column, index);
+      } else {
+        ignored.push(name || `#${index + 1}`);
+      }
+    });
+
+    // Fall back to the conventional position when the course column is unnamed
+    if (!columns.has('course')) columns.set('course', columns.get('prerequisite') === 1 ? 0 : 1);
+
+    if (ignored.length > 0) {
+      diagnostics.push({
+        severity: 'warning',
+        line: header.line,
+        message: `Ignoring unknown column(s): ${ignored.join(', ')}`
+      });
+    }
+    return columns;
+  }
+
+  /**
+   * Read a requirement type cell; unknown values fall back to a prerequisite with a warning
+   */
+  static parseKind(
+    value: string,
+    line: number | undefined,
+    diagnostics: ParseDiagnostic[]
+  ): RequirementKind | undefined {
+    const normalized = value.toLowerCase();
+    if (!normalized) return undefined;
+    if (['prerequisite', 'prereq', 'pre', 'required'].includes(normalized)) return 'prerequisite';
+    if (['corequisite', 'coreq', 'co', 'concurrent'].includes(normalized)) return 'corequisite';
+
+    diagnostics.push({
+      severity: 'warning',
+      line,
+      message: `Unknown requirement type "${value}"; treating it as a prerequisite`
+    });
+    return 'prerequisite';
+  }
+
+  /**
+   * Read a weight cell: a positive number, or a strength such as required or recommended
+   */
+  static parseWeight(
+    value: string,
+    line: number | undefined,
+    diagnostics: ParseDiagnostic[]
+  ): { strength?: PrerequisiteStrength; weight?: number } {
+    const normalized = value.toLowerCase();
+    if (!normalized) return {};
+    if (['required', 'mandatory'].includes(normalized)) return { strength: 'required' };
+    if (['recommended', 'optional', 'suggested'].includes(normalized)) return { strength: 'recommended' };
+
+    const weight = Number(normalized);
+    if (Number.isFinite(weight) && weight > 0) return { weight };
+
+    diagnostics.push({
+      severity: 'warning',
+      line,
+      message: `Invalid weight "${value}"; expected a positive number, required or recommended`
+    });
+    return {};
+  }
+
+  /**
+   * Build a course with generated name and defaults for an ID that only
+   * appears in prerequisite data
+   */
+  static placeholderCourse(courseId: string): Course {
+    return {
+      id: courseId,
+      name: courseId.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase()),
+      description: `Course: ${courseId}`,
+      credits: 3
+    };
   }
 
   /**
    * Export data to CSV format
+   * Rows are grouped by course in the order of `courses`, followed by edges of
+   * courses not in the list. The type, group and weight columns are only
+   * written when some edge needs them. Courses without any edge can only be
+   * kept through the catalog export.
    */
   static exportToCSV(courses: Course[], prerequisites: Prerequisite[]): string {
-    let csv = 'prerequisite,course\n';
-    prerequisites.forEach(({ prerequisite, course }) => {
-      csv += `${prerequisite},${course}\n`;
+    const hasGroups = prerequisites.some(p => p.group !== undefined);
+    const hasWeights = prerequisites.some(p => p.weight !== undefined || p.strength !== undefined);
+    const hasKinds = hasGroups || hasWeights || prerequisites.some(p => p.kind === 'corequisite');
+    const header = ['prerequisite', 'course'];
+    if (hasKinds) header.push('type');
+    if (hasGroups || hasWeights) header.push('group');
+    if (hasWeights) header.push('weight');
+
+    const position = new Map(courses.map((course, index) => [course.id, index]));
+    const ordered = prerequisites
+      .map((edge, index) => ({ edge, index }))
+      .sort((a, b) =>
+        (position.get(a.edge.course) ?? courses.length) - (position.get(b.edge.course) ?? courses.length) ||
+        a.index - b.index
+      )
+      .map(({ edge }) => edge);
+
+    let csv = CSVFormat.formatRow(header) + '\n';
+    ordered.forEach(({ prerequisite, course, kind, group, strength, weight }) => {
+      const row: (string | number)[] = [prerequisite, course];
+      if (hasKinds) row.push(kind ?? 'prerequisite');
+      if (hasGroups || hasWeights) row.push(group ?? '');
+      if (hasWeights) row.push(weight ?? strength ?? '');
+      csv += CSVFormat.formatRow(row) + '\n';
+    });
+    return csv;
+  }
+
+  /**
+   * Export courses as a catalog CSV (id,name,description,credits) that
+   * `parseCourses` reads back
+   */
+  static exportCatalogToCSV(courses: Course[]): string {
+    let csv = CSVFormat.formatRow(['id', 'name', 'description', 'credits']) + '\n';
+    courses.forEach(({ id, name, description, credits }) => {
+      csv += CSVFormat.formatRow([id, name, description ?? '', credits ?? '']) + '\n';
     });
     return csv;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,166 @@
+// Edits to courses and prerequisite edges, with undo/redo history
+
+import { Course, Prerequisite } from '../types/Course';
+import { CurriculumVersion } from '../algorithms/CurriculumDiff';
+
+export type CourseDetails = Pick<Course, 'name' | 'description' | 'credits'>;
+
+export type CurriculumEdit =
+  | { type: 'add-course'; course: Course }
+  | { type: 'update-course'; courseId: string; changes: Partial<CourseDetails> }
+  | { type: 'delete-course'; courseId: string }
+  | { type: 'add-edge'; edge: Prerequisite }
+  /** Removes the edge of the pair in the given group (none for an ungrouped edge) */
+  | { type: 'remove-edge'; prerequisite: string; course: string; group?: string };
+
+export interface EditHistory {
+  /** Earlier states, oldest first, each with the label of the edit that left it */
+  past: { state: CurriculumVersion; label: string }[];
+  present: CurriculumVersion;
+  /** Undone states, next redo first */
+  future: { state: CurriculumVersion; label: string }[];
+}
+
+/** Upper bound on undo steps, so long sessions do not hold every version */
+const MAX_HISTORY = 100;
+
+const sameEdge = (edge: Prerequisite, prerequisite: string, course: string) =>
+  edge.prerequisite === prerequisite && edge.course === course;
+
+const removedEdge = (edge: Prerequisite, edit: { prerequisite: string; course: string; group?: string }) =>
+  sameEdge(edge, edit.prerequisite, edit.course) && edge.group === edit.group;
+
+export class CurriculumEditor {
+  /**
+   * Why an edit cannot be applied, or null when it can
+   */
+  static validate(state: CurriculumVersion, edit: CurriculumEdit): string | null {
+    const exists = (id: string) => state.courses.some(course => course.id === id);
+    switch (edit.type) {
+      case 'add-course': {
+        const id = edit.course.id.trim();
+        if (!id) return 'A course needs an ID.';
+        if (/[\s,]/.test(id)) return 'Course IDs cannot contain spaces or commas.';
+        if (exists(id)) return `A course with the ID ${id} already exists.`;
+        return CurriculumEditor.validateDetails(edit.course);
+      }
+      case 'update-course':
+        if (!exists(edit.courseId)) return `Course ${edit.courseId} does not exist.`;
+        return CurriculumEditor.validateDetails(edit.changes);
+      case 'delete-course':
+        return exists(edit.courseId) ? null : `Course ${edit.courseId} does not exist.`;
+      case 'add-edge': {
+        const { prerequisite, course } = edit.edge;
+        if (!exists(prerequisite)) return `Course ${prerequisite} does not exist.`;
+        if (!exists(course)) return `Course ${course} does not exist.`;
+        if (prerequisite === course) return 'A course cannot be its own prerequisite.';
+        if (state.prerequisites.some(edge => sameEdge(edge, prerequisite, course))) {
+          return `${prerequisite} is already a requirement of ${course}.`;
+        }
+        return null;
+      }
+      case 'remove-edge':
+        return state.prerequisites.some(edge => removedEdge(edge, edit))
+          ? null
+          : `${edit.prerequisite} is not a requirement of ${edit.course}.`;
+    }
+  }
+
+  /**
+   * Apply an edit, returning a new state and leaving the given one untouched.
+   * Deleting a course also removes every edge to or from it.
+   */
+  static apply(state: CurriculumVersion, edit: CurriculumEdit): CurriculumVersion {
+    const error = CurriculumEditor.validate(state, edit);
+    if (error) throw new Error(error);
+
+    switch (edit.type) {
+      case 'add-course':
+        return {
+          courses: [...state.courses, { ...edit.course, id: edit.course.id.trim(), name: edit.course.name.trim() }],
+          prerequisites: state.prerequisites
+        };
+      case 'update-course':
+        return {
+          courses: state.courses.map(course =>
+            course.id === edit.courseId ? { ...course, ...edit.changes } : course
+          ),
+          prerequisites: state.prerequisites
+        };
+      case 'delete-course':
+        return {
+          courses: state.courses.filter(course => course.id !== edit.courseId),
+          prerequisites: state.prerequisites.filter(
+            edge => edge.prerequisite !== edit.courseId && edge.course !== edit.courseId
+          )
+        };
+      case 'add-edge':
+        return { courses: state.courses, prerequisites: [...state.prerequisites, edit.edge] };
+      case 'remove-edge':
+        return {
+          courses: state.courses,
+          prerequisites: state.prerequisites.filter(edge => !removedEdge(edge, edit))
+        };
+    }
+  }
+
+  /** Short description of an edit for undo and redo labels */
+  static describe(edit: CurriculumEdit): string {
+    switch (edit.type) {
+      case 'add-course':
+        return `add ${edit.course.id.trim()}`;
+      case 'update-course':
+        return `edit ${edit.courseId}`;
+      case 'delete-course':
+        return `delete ${edit.courseId}`;
+      case 'add-edge':
+        return `add ${edit.edge.prerequisite} → ${edit.edge.course}`;
+      case 'remove-edge':
+        return `remove ${edit.prerequisite} → ${edit.course}`;
+    }
+  }
+
+  static startHistory(state: CurriculumVersion): EditHistory {
+    return { past: [], present: state, future: [] };
+  }
+
+  /**
+   * Apply an edit on top of the history; redo steps are discarded
+   */
+  static record(history: EditHistory, edit: CurriculumEdit): EditHistory {
+    const next = CurriculumEditor.apply(history.present, edit);
+    return {
+      past: [...history.past, { state: history.present, label: CurriculumEditor.describe(edit) }].slice(-MAX_HISTORY),
+      present: next,
+      future: []
+    };
+  }
+
+  static undo(history: EditHistory): EditHistory {
+    const previous = history.past[history.past.length - 1];
+    if (!previous) return history;
+    return {
+      past: history.past.slice(0, -1),
+      present: previous.state,
+      future: [{ state: history.present, label: previous.label }, ...history.future]
+    };
+  }
+
+  static redo(history: EditHistory): EditHistory {
+    const [next, ...rest] = history.future;
+    if (!next) return history;
+    return {
+      past: [...history.past, { state: history.present, label: next.label }],
+      present: next.state,
+      future: rest
+    };
+  }
+
+  private static validateDetails(details: Partial<CourseDetails>): string | null {
+    if (details.name !== undefined && !details.name.trim()) return 'A course needs a name.';
+    if (details.credits !== undefined && (!Number.isFinite(details.credits) || details.credits < 0)) {
+      return 'Credits must be zero or a positive number.';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,168 @@
+// Named datasets and their ranking settings, kept in the browser's localStorage
+
+import { Course, Prerequisite } from '../types/Course';
+import { LayoutMode } from '../types/Layout';
+import { AlgorithmId } from '../algorithms/RankingAlgorithm';
+import { MAX_DAMPING_FACTOR, MIN_DAMPING_FACTOR, RANKING_ALGORITHMS } from '../algorithms/registry';
+
+/** Ranking view state restored when a dataset is opened again */
+export interface RankingViewSettings {
+  topN: number;
+  showGraph: boolean;
+  algorithm: AlgorithmId;
+  dampingFactor: number;
+  weighted: boolean;
+  targetCourses: string[];
+  viewMode: 'cards' | 'table';
+  highlightCycles: boolean;
+  layoutMode: LayoutMode;
+}
+
+export interface DatasetSummary {
+  id: string;
+  name: string;
+  /** ISO 8601 time of the last change */
+  savedAt: string;
+  courses: number;
+  prerequisites: number;
+}
+
+export interface StoredDataset {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+  /** Catalog uploaded alongside the prerequisites, merged when the dataset is opened */
+  catalog: Course[] | null;
+}
+
+const PREFIX = 'course-ranking:';
+const INDEX_KEY = `${PREFIX}datasets`;
+const LAST_USED_KEY = `${PREFIX}last-dataset`;
+const datasetKey = (id: string) => `${PREFIX}dataset:${id}`;
+const settingsKey = (id: string) => `${PREFIX}settings:${id}`;
+
+/** Dataset ID used for the built-in sample, so loading it twice keeps one copy */
+export const SAMPLE_DATASET_ID = 'sample';
+
+export class DatasetStore {
+  static list(): DatasetSummary[] {
+    return DatasetStore.read<DatasetSummary[]>(INDEX_KEY, Array.isArray) ?? [];
+  }
+
+  static load(id: string): StoredDataset | null {
+    return DatasetStore.read<StoredDataset>(
+      datasetKey(id),
+      value => DatasetStore.isRecord(value) && Array.isArray(value.courses) && Array.isArray(value.prerequisites)
+    );
+  }
+
+  /**
+   * Save a dataset under a new ID, or replace the dataset with the given ID.
+   * Throws when the browser refuses to store it, e.g. because storage is full.
+   */
+  static save(name: string, dataset: StoredDataset, id: string = DatasetStore.createId()): DatasetSummary {
+    // Catalog courses are counted once, whether or not they also appear in the edges
+    const catalogIds = new Set(dataset.catalog?.map(course => course.id) ?? []);
+    const summary: DatasetSummary = {
+      id,
+      name,
+      savedAt: new Date().toISOString(),
+      courses: catalogIds.size + dataset.courses.filter(course => !catalogIds.has(course.id)).length,
+      prerequisites: dataset.prerequisites.length
+    };
+
+    localStorage.setItem(datasetKey(id), JSON.stringify(dataset));
+    DatasetStore.writeIndex([...DatasetStore.list().filter(entry => entry.id !== id), summary]);
+    return summary;
+  }
+
+  static rename(id: string, name: string): void {
+    DatasetStore.writeIndex(DatasetStore.list().map(entry => (entry.id === id ? { ...entry, name } : entry)));
+  }
+
+  static remove(id: string): void {
+    localStorage.removeItem(datasetKey(id));
+    localStorage.removeItem(settingsKey(id));
+    DatasetStore.writeIndex(DatasetStore.list().filter(entry => entry.id !== id));
+    if (DatasetStore.lastUsed() === id) DatasetStore.setLastUsed(null);
+  }
+
+  /**
+   * Stored settings that are still valid; unknown algorithms, out-of-range
+   * numbers and values of the wrong type are left out so the defaults apply
+   */
+  static loadSettings(id: string): Partial<RankingViewSettings> | null {
+    const stored = DatasetStore.read<Record<string, unknown>>(settingsKey(id), DatasetStore.isRecord);
+    if (!stored) return null;
+
+    const settings: Partial<RankingViewSettings> = {};
+    const { topN, showGraph, algorithm, dampingFactor, weighted, targetCourses, viewMode, highlightCycles, layoutMode } =
+      stored;
+    if (typeof topN === 'number' && Number.isInteger(topN) && topN > 0) settings.topN = topN;
+    if (typeof showGraph === 'boolean') settings.showGraph = showGraph;
+    const known = RANKING_ALGORITHMS.find(entry => entry.id === algorithm);
+    if (known) settings.algorithm = known.id;
+    if (typeof dampingFactor === 'number' && dampingFactor >= MIN_DAMPING_FACTOR && dampingFactor <= MAX_DAMPING_FACTOR) {
+      settings.dampingFactor = dampingFactor;
+    }
+    if (typeof weighted === 'boolean') settings.weighted = weighted;
+    if (Array.isArray(targetCourses) && targetCourses.every(target => typeof target === 'string')) {
+      settings.targetCourses = targetCourses;
+    }
+    if (viewMode === 'cards' || viewMode === 'table') settings.viewMode = viewMode;
+    if (typeof highlightCycles === 'boolean') settings.highlightCycles = highlightCycles;
+    if (layoutMode === 'layered' || layoutMode === 'force') settings.layoutMode = layoutMode;
+    return settings;
+  }
+
+  /** Settings are a convenience, so failing to store them is not an error */
+  static saveSettings(id: string, settings: RankingViewSettings): void {
+    try {
+      localStorage.setItem(settingsKey(id), JSON.stringify(settings));
+    } catch (err) {
+      console.warn('Could not save ranking settings:', err);
+    }
+  }
+
+  static lastUsed(): string | null {
+    try {
+      return localStorage.getItem(LAST_USED_KEY);
+    } catch {
+      return null;
+    }
+  }
+
+  static setLastUsed(id: string | null): void {
+    try {
+      if (id === null) localStorage.removeItem(LAST_USED_KEY);
+      else localStorage.setItem(LAST_USED_KEY, id);
+    } catch (err) {
+      console.warn('Could not remember the last dataset:', err);
+    }
+  }
+
+  private static writeIndex(entries: DatasetSummary[]): void {
+    localStorage.setItem(INDEX_KEY, JSON.stringify(entries));
+  }
+
+  /**
+   * Parse a stored value, treating missing, unreadable or malformed entries as absent
+   */
+  private static read<T>(key: string, isValid: (value: unknown) => boolean): T | null {
+    try {
+      const raw = localStorage.getItem(key);
+      if (raw === null) return null;
+      const value: unknown = JSON.parse(raw);
+      return isValid(value) ? (value as T) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  private static createId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
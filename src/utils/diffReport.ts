@@ -0,0 +1,156 @@
+// Curriculum diff reports exported as Markdown, CSV or JSON
+
+import { CourseNode, Prerequisite } from '../types/Course';
+import { CurriculumDiffResult } from '../algorithms/CurriculumDiff';
+import { CSVFormat } from './csvFormat';
+
+export type DiffReportFormat = 'markdown' | 'csv' | 'json';
+
+export interface DiffReportOptions {
+  previousName: string;
+  currentName: string;
+  generatedAt?: Date;
+}
+
+export type CourseChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export const DIFF_REPORT_FORMATS: { id: DiffReportFormat; name: string; extension: string; mimeType: string }[] = [
+  { id: 'markdown', name: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'csv', name: 'CSV (Excel compatible)', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'json', name: 'JSON', extension: 'json', mimeType: 'application/json' }
+];
+
+const describeEdge = ({ prerequisite, course, kind, group, strength, weight }: Prerequisite) => {
+  const details = [kind === 'corequisite' ? 'corequisite' : '', group ? `group ${group}` : '', strength ?? '',
+    weight !== undefined ? `weight ${weight}` : ''].filter(Boolean);
+  return `${prerequisite} → ${course}${details.length > 0 ? ` (${details.join(', ')})` : ''}`;
+};
+
+export class DiffReport {
+  static format(diff: CurriculumDiffResult, format: DiffReportFormat, options: DiffReportOptions): string {
+    switch (format) {
+      case 'markdown':
+        return DiffReport.toMarkdown(diff, options);
+      case 'csv':
+        return DiffReport.toCSV(diff);
+      case 'json':
+        return DiffReport.toJSON(diff, options);
+    }
+  }
+
+  /**
+   * Whether a course was added, removed, or had its details or incoming edges changed
+   */
+  static courseStatus(diff: CurriculumDiffResult, courseId: string): CourseChangeStatus {
+    if (diff.addedCourses.includes(courseId)) return 'added';
+    if (diff.removedCourses.includes(courseId)) return 'removed';
+    const changed = diff.changedCourses.some(change => change.courseId === courseId) ||
+      [...diff.addedEdges, ...diff.removedEdges].some(edge => edge.course === courseId) ||
+      diff.changedEdges.some(({ after }) => after.course === courseId);
+    return changed ? 'changed' : 'unchanged';
+  }
+
+  static toJSON(diff: CurriculumDiffResult, options: DiffReportOptions): string {
+    const { previous, current, ...changes } = diff;
+    return JSON.stringify({
+      generatedAt: (options.generatedAt ?? new Date()).toISOString(),
+      previous: { name: options.previousName, courses: previous.nodes.length, prerequisites: previous.edges.length },
+      current: { name: options.currentName, courses: current.nodes.length, prerequisites: current.edges.length },
+      ...changes
+    }, null, 2) + '\n';
+  }
+
+  /**
+   * One row per course of either version with its rank movement and the
+   * prerequisites it gained or lost, as Excel-compatible CSV
+   */
+  static toCSV(diff: CurriculumDiffResult): string {
+    const header = [
+      'Course ID', 'Course Name', 'Status', 'Changed Fields', 'Previous Rank', 'Current Rank', 'Rank Change',
+      'Previous Score', 'Current Score', 'Prerequisites Added', 'Prerequisites Removed', 'Prerequisites Changed'
+    ];
+    const nodes = DiffReport.nodesById(diff);
+    const rows = diff.movements.map(movement => {
+      const id = movement.courseId;
+      return CSVFormat.formatRow([
+        id,
+        nodes.get(id)?.name ?? '',
+        DiffReport.courseStatus(diff, id),
+        diff.changedCourses.find(change => change.courseId === id)?.fields.join('; ') ?? '',
+        movement.previousRank ?? '',
+        movement.currentRank ?? '',
+        movement.rankChange ?? '',
+        movement.previousScore ?? '',
+        movement.currentScore ?? '',
+        diff.addedEdges.filter(edge => edge.course === id).map(edge => edge.prerequisite).join('; '),
+        diff.removedEdges.filter(edge => edge.course === id).map(edge => edge.prerequisite).join('; '),
+        diff.changedEdges.filter(({ after }) => after.course === id).map(({ after }) => after.prerequisite).join('; ')
+      ]);
+    });
+    return '\uFEFF' + [CSVFormat.formatRow(header), ...rows].join('\r\n') + '\r\n';
+  }
+
+  static toMarkdown(diff: CurriculumDiffResult, options: DiffReportOptions): string {
+    const nodes = DiffReport.nodesById(diff);
+    const cell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const list = (items: string[]) => (items.length > 0 ? items.map(item => `- ${item}`) : ['- None']);
+    const courseLabel = (id: string) => `\`${id}\` ${nodes.get(id)?.name ?? ''}`.trim();
+
+    const lines = [
+      `# Curriculum Changes: ${options.previousName} → ${options.currentName}`,
+      '',
+      `- **Generated:** ${(options.generatedAt ?? new Date()).toISOString()}`,
+      `- **Courses:** ${diff.previous.nodes.length} → ${diff.current.nodes.length} ` +
+        `(+${diff.addedCourses.length} / −${diff.removedCourses.length})`,
+      `- **Prerequisites:** ${diff.previous.edges.length} → ${diff.current.edges.length} ` +
+        `(+${diff.addedEdges.length} / −${diff.removedEdges.length}, ${diff.changedEdges.length} changed)`,
+      '',
+      '## Added Courses',
+      ...list(diff.addedCourses.map(courseLabel)),
+      '',
+      '## Removed Courses',
+      ...list(diff.removedCourses.map(courseLabel)),
+      '',
+      '## Changed Course Details',
+      ...list(diff.changedCourses.map(({ courseId, fields }) => `${courseLabel(courseId)}: ${fields.join(', ')}`)),
+      '',
+      '## Added Prerequisites',
+      ...list(diff.addedEdges.map(describeEdge)),
+      '',
+      '## Removed Prerequisites',
+      ...list(diff.removedEdges.map(describeEdge)),
+      '',
+      '## Changed Prerequisites',
+      ...list(diff.changedEdges.map(({ before, after }) => `${describeEdge(before)} ⇒ ${describeEdge(after)}`)),
+      '',
+      '## Rank Movement',
+      ''
+    ];
+
+    const moved = diff.movements.filter(movement => movement.rankChange !== 0);
+    if (moved.length === 0) {
+      lines.push('No course changed rank.');
+    } else {
+      lines.push(
+        '| Course | Name | Previous Rank | Current Rank | Change | Previous Score | Current Score |',
+        '| --- | --- | ---: | ---: | ---: | ---: | ---: |',
+        ...moved.map(movement => '| ' + [
+          `\`${cell(movement.courseId)}\``,
+          cell(nodes.get(movement.courseId)?.name ?? ''),
+          movement.previousRank ?? '—',
+          movement.currentRank ?? '—',
+          movement.rankChange === undefined
+            ? (movement.currentRank === undefined ? 'removed' : 'new')
+            : movement.rankChange > 0 ? `▲${movement.rankChange}` : `▼${-movement.rankChange}`,
+          movement.previousScore?.toFixed(6) ?? '—',
+          movement.currentScore?.toFixed(6) ?? '—'
+        ].join(' | ') + ' |')
+      );
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private static nodesById(diff: CurriculumDiffResult): Map<string, CourseNode> {
+    return new Map([...diff.previous.nodes, ...diff.current.nodes].map(node => [node.id, node]));
+  }
+}
@@ -0,0 +1,21 @@
+// Browser download helpers
+
+export class FileDownload {
+  /**
+   * Save a blob under the given file name through a temporary link
+   */
+  static blob(blob: Blob, fileName: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  static text(content: string, fileName: string, type: string = 'text/plain'): void {
+    FileDownload.blob(new Blob([content], { type }), fileName);
+  }
+}
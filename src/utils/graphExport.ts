@@ -0,0 +1,242 @@
+// SVG, PNG and Graphviz DOT exports of the course graph
+
+import { GraphData } from '../types/Course';
+import { Point } from '../types/Layout';
+import { RequirementGroups } from '../algorithms/Requirements';
+import {
+  FONT_FAMILY,
+  GraphRenderer,
+  GraphScene,
+  LEGEND,
+  LEGEND_EDGE_STYLES,
+  SCORE_SCALE_STOPS
+} from './graphRenderer';
+
+export interface DOTExportOptions {
+  scoreLabel?: string;
+  formatScore?: (score: number) => string;
+}
+
+const BACKGROUND = '#F8FAFC';
+
+const n = (value: number) => Number(value.toFixed(2));
+
+const point = ({ x, y }: Point) => `${n(x)},${n(y)}`;
+
+const escapeXML = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const text = (
+  content: string,
+  { x, y }: Point,
+  style: { size: number; color: string; bold?: boolean; anchor?: 'start' | 'middle' }
+) =>
+  `<text x="${n(x)}" y="${n(y)}" font-family="${escapeXML(FONT_FAMILY)}" font-size="${style.size}"` +
+  `${style.bold ? ' font-weight="bold"' : ''} fill="${style.color}" text-anchor="${style.anchor ?? 'start'}" ` +
+  `dominant-baseline="middle">${escapeXML(content)}</text>`;
+
+/**
+ * Quote a DOT identifier or string; newlines become DOT's centered line breaks
+ */
+const quoteDOT = (value: string) =>
+  `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+
+const formatAttributes = (attributes: [string, string | number][]) =>
+  attributes.map(([key, value]) => `${key}=${typeof value === 'number' ? value : quoteDOT(value)}`).join(', ');
+
+const hslToHex = (hue: number, saturation: number, lightness: number) => {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+  const channel = (k: number) => {
+    const index = (k + hue / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(index - 3, 9 - index, 1));
+    return Math.round(value * 255).toString(16).padStart(2, '0');
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`.toUpperCase();
+};
+
+export class GraphExport {
+  /**
+   * Size of an exported image: the whole layout, shifted right so the legend
+   * never covers a course
+   */
+  static imageSize(scene: GraphScene): { width: number; height: number; offsetX: number } {
+    const offsetX = LEGEND.x + LEGEND.width;
+    return {
+      width: Math.ceil(offsetX + scene.layout.width),
+      height: Math.ceil(Math.max(scene.layout.height, LEGEND.y * 2 + LEGEND.height)),
+      offsetX
+    };
+  }
+
+  /**
+   * Render the scene to a PNG at `pixelRatio` times the layout resolution
+   */
+  static toPNG(scene: GraphScene, pixelRatio: number = 2): Promise<Blob> {
+    const { width, height, offsetX } = GraphExport.imageSize(scene);
+    const canvas = document.createElement('canvas');
+    canvas.width = width * pixelRatio;
+    canvas.height = height * pixelRatio;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Canvas rendering is not available'));
+
+    ctx.scale(pixelRatio, pixelRatio);
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, width, height);
+    GraphRenderer.draw(ctx, scene, { x: offsetX, y: 0, scale: 1 });
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode the PNG image'))), 'image/png');
+    });
+  }
+
+  /**
+   * Render the scene as a standalone SVG document with the same styling as the canvas
+   */
+  static toSVG(scene: GraphScene): string {
+    const { graph, layout, nodeStyles, scoreLabel, formatScore } = scene;
+    const { width, height, offsetX } = GraphExport.imageSize(scene);
+    const highlights = GraphRenderer.highlights(scene);
+    const defs: string[] = [
+      '<filter id="node-shadow" x="-50%" y="-50%" width="200%" height="200%">' +
+        '<feDropShadow dx="2" dy="2" stdDeviation="2" flood-color="#000000" flood-opacity="0.2"/></filter>'
+    ];
+    const body: string[] = [];
+
+    graph.edges.forEach(edge => {
+      const geometry = GraphRenderer.edgeGeometry(edge, scene);
+      if (!geometry) return;
+      const { color, width: strokeWidth, dash, alpha } = GraphRenderer.edgeAppearance(edge, scene, highlights);
+      const stroke = `fill="none" stroke="${color}" stroke-width="${strokeWidth}" stroke-opacity="${alpha}"`;
+      const dashAttribute = dash.length > 0 ? ` stroke-dasharray="${dash.join(' ')}"` : '';
+
+      if (geometry.type === 'loop') {
+        body.push(`<circle cx="${n(geometry.center.x)}" cy="${n(geometry.center.y)}" r="${geometry.radius}" ${stroke}${dashAttribute}/>`);
+        return;
+      }
+
+      const path = `M ${point(geometry.start)} ` +
+        geometry.segments.map(({ control, end }) => `Q ${point(control)} ${point(end)}`).join(' ');
+      body.push(`<path d="${path}" ${stroke}${dashAttribute}/>`);
+      body.push(`<polyline points="${geometry.arrow.map(point).join(' ')}" ${stroke}/>`);
+    });
+
+    graph.nodes.forEach((node, index) => {
+      const pos = layout.positions.get(node.id);
+      if (!pos) return;
+      const { radius } = nodeStyles.get(node.id)!;
+      const appearance = GraphRenderer.nodeAppearance(node, scene, highlights);
+
+      defs.push(
+        `<radialGradient id="node-fill-${index}">` +
+          `<stop offset="0" stop-color="${appearance.innerColor}"/>` +
+          `<stop offset="1" stop-color="${appearance.outerColor}"/></radialGradient>`
+      );
+      body.push(
+        `<g opacity="${appearance.alpha}">` +
+          `<title>${escapeXML(`${node.id}: ${node.name} (rank ${node.rank}, ${scoreLabel} ${formatScore(node.score)})`)}</title>` +
+          `<circle cx="${n(pos.x)}" cy="${n(pos.y)}" r="${n(radius)}" fill="url(#node-fill-${index})" ` +
+          `stroke="${appearance.stroke}" stroke-width="${appearance.strokeWidth}" filter="url(#node-shadow)"/>` +
+          text(appearance.label, pos, { size: 12, bold: true, color: '#FFFFFF', anchor: 'middle' }) +
+          text(formatScore(node.score), { x: pos.x, y: pos.y + radius + 15 }, { size: 10, color: '#64748B', anchor: 'middle' }) +
+          '</g>'
+      );
+    });
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+      `<defs>${defs.join('')}${GraphExport.legendDefs()}</defs>`,
+      `<rect width="100%" height="100%" fill="${BACKGROUND}"/>`,
+      `<g transform="translate(${offsetX} 0)">`,
+      ...body,
+      '</g>',
+      GraphExport.legendSVG(scene),
+      '</svg>'
+    ].join('\n');
+  }
+
+  /**
+   * Graphviz DOT with scores, ranks, credits and degrees kept as node
+   * attributes and requirement kinds, groups and weights as edge attributes.
+   * Fill colors and pen widths follow the on-screen styling.
+   */
+  static toDOT(graph: GraphData, options: DOTExportOptions = {}): string {
+    const { scoreLabel = 'PageRank Score', formatScore = (score: number) => score.toFixed(6) } = options;
+    const nodeStyles = GraphRenderer.nodeStyles(graph);
+    const lines = [
+      'digraph prerequisites {',
+      `  graph [rankdir=TB, label=${quoteDOT(`Course prerequisites ranked by ${scoreLabel}`)}, labelloc=t];`,
+      '  node [shape=ellipse, style=filled, fontcolor="#FFFFFF", fontname="Helvetica"];',
+      '  edge [color="#94A3B8"];'
+    ];
+
+    graph.nodes.forEach(node => {
+      const { normalizedScore } = nodeStyles.get(node.id)!;
+      const attributes: [string, string | number][] = [
+        ['label', `${node.id}\n${formatScore(node.score)}`],
+        ['tooltip', node.name],
+        ['name', node.name],
+        ['course_rank', node.rank],
+        ['score', node.score],
+        ['in_degree', node.inDegree],
+        ['out_degree', node.outDegree],
+        ['fillcolor', hslToHex(220 - normalizedScore * 60, 70 + normalizedScore * 20, 45 + normalizedScore * 10)]
+      ];
+      if (node.credits !== undefined) attributes.push(['credits', node.credits]);
+      if (node.description) attributes.push(['description', node.description]);
+      lines.push(`  ${quoteDOT(node.id)} [${formatAttributes(attributes)}];`);
+    });
+
+    graph.edges.forEach(edge => {
+      // Graphviz reserves `weight` for integer layout weights, so the edge weight gets its own name
+      const weight = RequirementGroups.edgeWeight(edge);
+      const attributes: [string, string | number][] = [
+        ['kind', edge.kind ?? 'prerequisite'],
+        ['prerequisite_weight', weight],
+        ['penwidth', Math.min(Math.max(weight * 2, 1), 6)]
+      ];
+      if (edge.group !== undefined) attributes.push(['group_id', edge.group], ['color', '#A855F7']);
+      if (edge.strength !== undefined) attributes.push(['strength', edge.strength]);
+      if (edge.kind === 'corequisite') attributes.push(['style', 'dotted']);
+      else if (edge.strength === 'recommended') attributes.push(['style', 'dashed']);
+      lines.push(`  ${quoteDOT(edge.source)} -> ${quoteDOT(edge.target)} [${formatAttributes(attributes)}];`);
+    });
+
+    lines.push('}');
+    return lines.join('\n') + '\n';
+  }
+
+  private static legendDefs(): string {
+    const { x, y, height } = LEGEND;
+    return (
+      `<linearGradient id="legend-fill" gradientUnits="userSpaceOnUse" x1="${x}" y1="${y}" x2="${x}" y2="${y + height}">` +
+        '<stop offset="0" stop-color="#FFFFFF" stop-opacity="0.95"/>' +
+        '<stop offset="1" stop-color="#F8FAFC" stop-opacity="0.95"/></linearGradient>' +
+      '<linearGradient id="legend-scale">' +
+        SCORE_SCALE_STOPS.map(([offset, color]) => `<stop offset="${offset}" stop-color="${color}"/>`).join('') +
+        '</linearGradient>'
+    );
+  }
+
+  private static legendSVG(scene: GraphScene): string {
+    const { scoreLabel, formatScore } = scene;
+    const { min, max } = GraphRenderer.scoreRange(scene.graph);
+    const { x, y, width, height } = LEGEND;
+    const parts = [
+      `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="url(#legend-fill)" stroke="#E2E8F0" stroke-width="1"/>`,
+      text(`${scoreLabel}s`, { x: x + 15, y: y + 25 }, { size: 14, bold: true, color: '#1E293B' }),
+      text('Higher scores = More central', { x: x + 15, y: y + 45 }, { size: 11, color: '#64748B' }),
+      text(`High: ${formatScore(max)}`, { x: x + 15, y: y + 65 }, { size: 10, color: '#64748B' }),
+      text(`Low: ${formatScore(min)}`, { x: x + 15, y: y + 80 }, { size: 10, color: '#64748B' }),
+      `<rect x="${x + 130}" y="${y + 60}" width="80" height="12" fill="url(#legend-scale)" stroke="#CBD5E1" stroke-width="1"/>`
+    ];
+    LEGEND_EDGE_STYLES.forEach(({ label, color, dash }, index) => {
+      const lineY = y + 102 + index * 18;
+      const dashAttribute = dash.length > 0 ? ` stroke-dasharray="${dash.join(' ')}"` : '';
+      parts.push(`<line x1="${x + 15}" y1="${lineY}" x2="${x + 45}" y2="${lineY}" stroke="${color}" stroke-width="2"${dashAttribute}/>`);
+      parts.push(text(label, { x: x + 55, y: lineY }, { size: 10, color: '#64748B' }));
+    });
+    return parts.join('\n');
+  }
+}
@@ -0,0 +1,629 @@
+// Import of prerequisite graphs from JSON, GraphML and Graphviz DOT files
+
+import { Course, Prerequisite } from '../types/Course';
+import { RequirementGroups } from '../algorithms/Requirements';
+import { CSVParser, CSVParseResult } from './csvParser';
+import { ParseDiagnostic } from './csvFormat';
+
+export type ImportFormat = 'csv' | 'json' | 'graphml' | 'dot';
+
+/** File extensions accepted by the prerequisites upload */
+export const IMPORT_EXTENSIONS = '.csv,.tsv,.txt,.json,.graphml,.xml,.dot,.gv';
+
+export const IMPORT_FORMAT_NAMES: Record<ImportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  graphml: 'GraphML',
+  dot: 'Graphviz DOT'
+};
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  '.csv': 'csv',
+  '.tsv': 'csv',
+  '.json': 'json',
+  '.graphml': 'graphml',
+  '.xml': 'graphml',
+  '.dot': 'dot',
+  '.gv': 'dot'
+};
+
+/** Edge attributes as written in the source file, validated like the CSV columns */
+interface EdgeFields {
+  kind?: string;
+  group?: string;
+  weight?: string;
+  strength?: string;
+}
+
+type CourseFields = Partial<Omit<Course, 'id' | 'credits'>> & { credits?: string };
+
+/**
+ * Collects courses and edges read from any format and reports problems the
+ * same way the CSV parser does
+ */
+class GraphBuilder {
+  readonly diagnostics: ParseDiagnostic[] = [];
+  private courses = new Map<string, Course>();
+  private prerequisites: Prerequisite[] = [];
+  /** Group of each prerequisite/course pair already added; a pair may appear only once */
+  private seenEdges = new Map<string, string | undefined>();
+
+  addCourse(id: string, fields: CourseFields, line?: number): void {
+    const course = this.courses.get(id) ?? CSVParser.placeholderCourse(id);
+    if (fields.name) course.name = fields.name;
+    if (fields.description) course.description = fields.description;
+    if (fields.credits) {
+      const credits = Number(fields.credits);
+      if (Number.isFinite(credits) && credits >= 0) {
+        course.credits = credits;
+      } else {
+        this.diagnostics.push({
+          severity: 'warning',
+          line,
+          message: `Invalid credits "${fields.credits}" for ${id}; using ${course.credits}`
+        });
+      }
+    }
+    this.courses.set(id, course);
+  }
+
+  addEdge(prerequisite: string, course: string, fields: EdgeFields, line?: number): void {
+    if (!prerequisite || !course) {
+      this.diagnostics.push({
+        severity: 'error',
+        line,
+        message: `Missing ${prerequisite ? 'course' : 'prerequisite'} value; edge skipped`
+      });
+      return;
+    }
+
+    const group = fields.group || undefined;
+    const edgeKey = `${prerequisite}\u0000${course}`;
+    if (this.seenEdges.has(edgeKey)) {
+      const firstGroup = this.seenEdges.get(edgeKey);
+      this.diagnostics.push({
+        severity: 'warning',
+        line,
+        message: firstGroup === group
+          ? `Duplicate prerequisite ${prerequisite} → ${course}; skipped`
+          : `${prerequisite} → ${course} is already listed ${firstGroup ? `in group "${firstGroup}"` : 'without a group'}; ` +
+            'a course can require another only once, edge skipped'
+      });
+      return;
+    }
+    this.seenEdges.set(edgeKey, group);
+
+    const kind = CSVParser.parseKind(fields.kind ?? '', line, this.diagnostics);
+    const { strength } = CSVParser.parseWeight(fields.strength ?? '', line, this.diagnostics);
+    const parsed = CSVParser.parseWeight(fields.weight ?? '', line, this.diagnostics);
+    const edge: Prerequisite = { prerequisite, course };
+    if (kind === 'corequisite') edge.kind = kind;
+    if (group !== undefined) edge.group = group;
+    if (strength ?? parsed.strength) edge.strength = strength ?? parsed.strength;
+    // Exporters write the effective weight of every edge; keep it only when it is not the default
+    if (parsed.weight !== undefined && parsed.weight !== RequirementGroups.edgeWeight(edge)) {
+      edge.weight = parsed.weight;
+    }
+    this.prerequisites.push(edge);
+
+    if (!this.courses.has(prerequisite)) this.courses.set(prerequisite, CSVParser.placeholderCourse(prerequisite));
+    if (!this.courses.has(course)) this.courses.set(course, CSVParser.placeholderCourse(course));
+  }
+
+  error(message: string, line?: number): void {
+    this.diagnostics.push({ severity: 'error', line, message });
+  }
+
+  warning(message: string, line?: number): void {
+    this.diagnostics.push({ severity: 'warning', line, message });
+  }
+
+  result(): CSVParseResult {
+    if (this.prerequisites.length === 0 && !this.diagnostics.some(d => d.severity === 'error')) {
+      this.error('No valid prerequisite edges were found');
+    }
+    return {
+      courses: Array.from(this.courses.values()),
+      prerequisites: this.prerequisites,
+      diagnostics: this.diagnostics
+    };
+  }
+}
+
+/** First string-like value among the given keys of a JSON object */
+const field = (record: Record<string, unknown>, ...keys: string[]): string | undefined => {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' || typeof value === 'number') return String(value).trim();
+  }
+  return undefined;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class GraphImporter {
+  /**
+   * Work out the format of an uploaded file from its extension, falling back
+   * to the content for unknown extensions such as .txt
+   */
+  static detectFormat(content: string, fileName?: string): ImportFormat {
+    const extension = fileName?.toLowerCase().match(/\.[^.]+$/)?.[0];
+    if (extension && EXTENSION_FORMATS[extension]) return EXTENSION_FORMATS[extension];
+
+    const start = content.replace(/^\uFEFF/, '').trimStart();
+    if (start.startsWith('{') || start.startsWith('[')) return 'json';
+    if (start.startsWith('<')) return 'graphml';
+    if (/^(strict\s+)?(di)?graph\b/i.test(start) || start.startsWith('/*') || start.startsWith('//')) return 'dot';
+    return 'csv';
+  }
+
+  /**
+   * Parse prerequisite data in any supported format into the same result
+   * shape as `CSVParser.parsePrerequisites`
+   */
+  static parse(content: string, fileName?: string): CSVParseResult {
+    switch (GraphImporter.detectFormat(content, fileName)) {
+      case 'json':
+        return GraphImporter.parseJSON(content);
+      case 'graphml':
+        return GraphImporter.parseGraphML(content);
+      case 'dot':
+        return GraphImporter.parseDOT(content);
+      case 'csv':
+        return CSVParser.parsePrerequisites(content);
+    }
+  }
+
+  /**
+   * Parse a JSON document. Accepted shapes:
+   * - `{ courses | nodes, prerequisites | edges | links }`, where edges name their endpoints
+   *   as prerequisite/course, source/target or from/to, or are `[prerequisite, course]` pairs
+   * - a bare array of such edges
+   * - a ranking export, whose `rankings` entries list their prerequisites
+   */
+  static parseJSON(content: string): CSVParseResult {
+    const builder = new GraphBuilder();
+    let data: unknown;
+    try {
+      data = JSON.parse(content.replace(/^\uFEFF/, ''));
+    } catch (error) {
+      builder.error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+      return builder.result();
+    }
+
+    const root: Record<string, unknown> = Array.isArray(data) ? { prerequisites: data } : isRecord(data) ? data : {};
+    const courseList = root.courses ?? root.nodes ?? root.rankings;
+    const edgeList = root.prerequisites ?? root.edges ?? root.links;
+
+    if (Array.isArray(courseList)) {
+      courseList.forEach((entry, index) => {
+        if (typeof entry === 'string') {
+          builder.addCourse(entry.trim(), {});
+          return;
+        }
+        const id = isRecord(entry) ? field(entry, 'id', 'code', 'key') : undefined;
+        if (!isRecord(entry) || !id) {
+          builder.warning(`Course entry ${index + 1} has no id; skipped`);
+          return;
+        }
+        builder.addCourse(id, {
+          name: field(entry, 'name', 'title', 'label'),
+          description: field(entry, 'description'),
+          credits: field(entry, 'credits')
+        });
+
+        // Ranking exports list prerequisites per course instead of as edges
+        if (edgeList === undefined && Array.isArray(entry.prerequisites)) {
+          entry.prerequisites.forEach(prerequisite => {
+            if (typeof prerequisite === 'string') builder.addEdge(prerequisite.trim(), id, {});
+          });
+        }
+      });
+    }
+
+    if (Array.isArray(edgeList)) {
+      edgeList.forEach((entry, index) => {
+        if (Array.isArray(entry) && entry.length >= 2) {
+          builder.addEdge(String(entry[0]).trim(), String(entry[1]).trim(), {});
+        } else if (isRecord(entry)) {
+          builder.addEdge(
+            field(entry, 'prerequisite', 'source', 'from') ?? '',
+            field(entry, 'course', 'target', 'to') ?? '',
+            {
+              kind: field(entry, 'kind', 'type'),
+              group: field(entry, 'group', 'group_id'),
+              weight: field(entry, 'weight', 'prerequisite_weight'),
+              strength: field(entry, 'strength')
+            }
+          );
+        } else {
+          builder.warning(`Edge entry ${index + 1} is neither an object nor a pair; skipped`);
+        }
+      });
+    } else if (edgeList !== undefined) {
+      builder.error('Expected "prerequisites" to be an array');
+    } else if (!Array.isArray(courseList)) {
+      builder.error('Expected an object with "courses" and "prerequisites" arrays, or an array of edges');
+    }
+
+    return builder.result();
+  }
+
+  /**
+   * Parse a GraphML document. Edges point from the prerequisite (source) to the
+   * course (target); node and edge data are matched by their key's attr.name.
+   */
+  static parseGraphML(content: string): CSVParseResult {
+    const builder = new GraphBuilder();
+    const doc = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml');
+    const parseError = doc.getElementsByTagName('parsererror')[0];
+    if (parseError) {
+      builder.error(`Invalid XML: ${parseError.textContent?.trim().split('\n')[0] ?? 'unreadable document'}`);
+      return builder.result();
+    }
+    if (doc.documentElement.localName !== 'graphml') {
+      builder.error('Expected a <graphml> document');
+      return builder.result();
+    }
+
+    const keyNames = new Map<string, string>();
+    Array.from(doc.getElementsByTagName('key')).forEach(key => {
+      const id = key.getAttribute('id');
+      if (id) keyNames.set(id, (key.getAttribute('attr.name') ?? id).toLowerCase());
+    });
+    const dataOf = (element: Element) => {
+      const values: Record<string, string> = {};
+      Array.from(element.children)
+        .filter(child => child.localName === 'data')
+        .forEach(child => {
+          const key = child.getAttribute('key') ?? '';
+          values[keyNames.get(key) ?? key.toLowerCase()] = child.textContent?.trim() ?? '';
+        });
+      return values;
+    };
+
+    Array.from(doc.getElementsByTagName('graph')).forEach(graph => {
+      if (graph.getAttribute('edgedefault') === 'undirected') {
+        builder.warning(`Graph "${graph.getAttribute('id') ?? ''}" is undirected; edges are read as source → target`);
+      }
+    });
+
+    Array.from(doc.getElementsByTagName('node')).forEach((node, index) => {
+      const id = node.getAttribute('id')?.trim();
+      if (!id) {
+        builder.warning(`Node ${index + 1} has no id; skipped`);
+        return;
+      }
+      const data = dataOf(node);
+      builder.addCourse(id, {
+        name: data.name ?? data.title ?? data.label,
+        description: data.description,
+        credits: data.credits
+      });
+    });
+
+    Array.from(doc.getElementsByTagName('edge')).forEach(edge => {
+      const data = dataOf(edge);
+      builder.addEdge(edge.getAttribute('source')?.trim() ?? '', edge.getAttribute('target')?.trim() ?? '', {
+        kind: data.kind ?? data.type,
+        group: data.group ?? data.group_id,
+        weight: data.weight ?? data.prerequisite_weight,
+        strength: data.strength
+      });
+    });
+
+    return builder.result();
+  }
+
+  /**
+   * Parse a Graphviz DOT graph. Edges point from prerequisite to course;
+   * subgraphs are flattened and layout attributes are ignored. Course details
+   * come from the `name` (or `tooltip`/`label`), `description` and `credits`
+   * node attributes, so graphs exported by this app import unchanged.
+   */
+  static parseDOT(content: string): CSVParseResult {
+    const builder = new GraphBuilder();
+    try {
+      new DOTReader(content.replace(/^\uFEFF/, ''), builder).read();
+    } catch (error) {
+      if (!(error instanceof DOTSyntaxError)) throw error;
+      builder.error(error.message, error.line);
+    }
+    return builder.result();
+  }
+}
+
+class DOTSyntaxError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(message);
+  }
+}
+
+interface DOTToken {
+  /** `id` covers names, numbers and quoted or HTML strings */
+  type: 'id' | 'edgeop' | 'punct' | 'end';
+  value: string;
+  line: number;
+  quoted?: boolean;
+}
+
+type DOTAttributes = Record<string, string>;
+
+// Unquoted DOT IDs: numerals, or names of letters, digits and underscores not starting with a digit
+const DOT_ID = /-?(?:\.\d+|\d+(?:\.\d*)?)|[A-Za-z_\u0080-\uFFFF][\w\u0080-\uFFFF]*/y;
+
+/**
+ * Recursive-descent reader for the DOT grammar, feeding nodes and edges to a
+ * GraphBuilder as statements are read
+ */
+class DOTReader {
+  private tokens: DOTToken[];
+  private position = 0;
+  private directed = true;
+  private warnedUndirected = false;
+
+  constructor(content: string, private builder: GraphBuilder) {
+    this.tokens = DOTReader.tokenize(content);
+  }
+
+  read(): void {
+    if (this.isKeyword('strict')) this.next();
+    const kind = this.next();
+    if (kind.type !== 'id' || !['graph', 'digraph'].includes(kind.value.toLowerCase())) {
+      throw new DOTSyntaxError(`Expected "digraph" or "graph" but found "${kind.value}"`, kind.line);
+    }
+    this.directed = kind.value.toLowerCase() === 'digraph';
+    if (this.peek().type === 'id') this.next();
+    this.expect('{');
+    this.statements({ node: {}, edge: {} });
+    this.expect('}');
+  }
+
+  /** Read statements up to the closing brace; returns the nodes they mention */
+  private statements(inherited: { node: DOTAttributes; edge: DOTAttributes }): Set<string> {
+    const defaults = { node: { ...inherited.node }, edge: { ...inherited.edge } };
+    const mentioned = new Set<string>();
+
+    while (this.peek().type !== 'end' && !this.isPunct('}')) {
+      if (this.isPunct(';')) {
+        this.next();
+        continue;
+      }
+      const token = this.peek();
+      const keyword = token.type === 'id' && !token.quoted ? token.value.toLowerCase() : '';
+
+      if (keyword === 'graph' || keyword === 'node' || keyword === 'edge') {
+        this.next();
+        const attributes = this.attributeLists();
+        if (keyword !== 'graph') Object.assign(defaults[keyword], attributes);
+      } else if (token.type === 'id' && this.peek(1).type === 'punct' && this.peek(1).value === '=') {
+        // Graph attribute such as rankdir=LR
+        this.next();
+        this.next();
+        this.expectId();
+      } else {
+        this.edgeOrNodeStatement(defaults, mentioned);
+      }
+    }
+    return mentioned;
+  }
+
+  private edgeOrNodeStatement(
+    defaults: { node: DOTAttributes; edge: DOTAttributes },
+    mentioned: Set<string>
+  ): void {
+    const line = this.peek().line;
+    const operands = [this.operand(defaults)];
+    while (this.peek().type === 'edgeop') {
+      const operator = this.next();
+      if (operator.value === '--' && !this.warnedUndirected) {
+        this.builder.warning('Undirected edges (--) are read as prerequisite → course', operator.line);
+        this.warnedUndirected = true;
+      } else if (operator.value === '->' && !this.directed) {
+        throw new DOTSyntaxError('"->" is not allowed in an undirected graph', operator.line);
+      }
+      operands.push(this.operand(defaults));
+    }
+    const attributes = this.attributeLists();
+
+    if (operands.length === 1) {
+      const [nodes] = operands;
+      if (nodes.subgraph) {
+        nodes.ids.forEach(id => mentioned.add(id));
+        return;
+      }
+      const [id] = nodes.ids;
+      this.addNode(id, { ...defaults.node, ...attributes }, line);
+      mentioned.add(id);
+      return;
+    }
+
+    const edgeAttributes = { ...defaults.edge, ...attributes };
+    for (let i = 0; i + 1 < operands.length; i++) {
+      operands[i].ids.forEach(source => {
+        operands[i + 1].ids.forEach(target => {
+          this.builder.addEdge(source, target, {
+            kind: edgeAttributes.kind ?? edgeAttributes.type,
+            group: edgeAttributes.group_id ?? edgeAttributes.group,
+            weight: edgeAttributes.prerequisite_weight ?? edgeAttributes.weight,
+            strength: edgeAttributes.strength
+          }, line);
+        });
+      });
+    }
+    operands.forEach(({ ids }) => ids.forEach(id => mentioned.add(id)));
+  }
+
+  /** A node ID (with optional port) or a subgraph, as one side of an edge */
+  private operand(defaults: { node: DOTAttributes; edge: DOTAttributes }): { ids: string[]; subgraph: boolean } {
+    if (this.isKeyword('subgraph') || this.isPunct('{')) {
+      if (this.isKeyword('subgraph')) {
+        this.next();
+        if (this.peek().type === 'id') this.next();
+      }
+      this.expect('{');
+      const ids = this.statements(defaults);
+      this.expect('}');
+      return { ids: Array.from(ids), subgraph: true };
+    }
+
+    const token = this.expectId();
+    this.addNode(token.value, defaults.node, token.line);
+    // Ports (node:port:compass) do not matter for prerequisites
+    while (this.isPunct(':')) {
+      this.next();
+      this.expectId();
+    }
+    return { ids: [token.value], subgraph: false };
+  }
+
+  private addNode(id: string, attributes: DOTAttributes, line: number): void {
+    const label = attributes.label?.split('\n')[0].trim();
+    this.builder.addCourse(id, {
+      name: attributes.name || attributes.tooltip || (label && label !== id && label !== '\\N' ? label : undefined),
+      description: attributes.description,
+      credits: attributes.credits
+    }, line);
+  }
+
+  /** Zero or more `[a=b, c=d]` lists, merged */
+  private attributeLists(): DOTAttributes {
+    const attributes: DOTAttributes = {};
+    while (this.isPunct('[')) {
+      this.next();
+      while (!this.isPunct(']')) {
+        const key = this.expectId();
+        let value = 'true';
+        if (this.isPunct('=')) {
+          this.next();
+          value = this.expectId().value;
+        }
+        attributes[key.value.toLowerCase()] = value;
+        if (this.isPunct(',') || this.isPunct(';')) this.next();
+      }
+      this.expect(']');
+    }
+    return attributes;
+  }
+
+  private peek(offset = 0): DOTToken {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): DOTToken {
+    const token = this.peek();
+    if (token.type !== 'end') this.position++;
+    return token;
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'punct' && token.value === value;
+  }
+
+  private isKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'id' && !token.quoted && token.value.toLowerCase() === value;
+  }
+
+  private expect(value: string): void {
+    const token = this.next();
+    if (token.type !== 'punct' || token.value !== value) {
+      throw new DOTSyntaxError(
+        `Expected "${value}" but found ${token.type === 'end' ? 'the end of the file' : `"${token.value}"`}`,
+        token.line
+      );
+    }
+  }
+
+  private expectId(): DOTToken {
+    const token = this.next();
+    if (token.type !== 'id') {
+      throw new DOTSyntaxError(
+        `Expected a name but found ${token.type === 'end' ? 'the end of the file' : `"${token.value}"`}`,
+        token.line
+      );
+    }
+    return token;
+  }
+
+  private static tokenize(content: string): DOTToken[] {
+    const tokens: DOTToken[] = [];
+    let line = 1;
+    let i = 0;
+
+    while (i < content.length) {
+      const char = content[i];
+      const startLine = line;
+
+      if (char === '\n') {
+        line++;
+        i++;
+      } else if (/\s/.test(char)) {
+        i++;
+      } else if (content.startsWith('//', i) || (char === '#' && (i === 0 || content[i - 1] === '\n'))) {
+        while (i < content.length && content[i] !== '\n') i++;
+      } else if (content.startsWith('/*', i)) {
+        const end = content.indexOf('*/', i + 2);
+        if (end === -1) throw new DOTSyntaxError('Unterminated comment', startLine);
+        for (let j = i; j < end; j++) if (content[j] === '\n') line++;
+        i = end + 2;
+      } else if (char === '"') {
+        let value = '';
+        i++;
+        while (i < content.length && content[i] !== '"') {
+          if (content[i] === '\\' && i + 1 < content.length) {
+            const escaped = content[i + 1];
+            if (escaped === '\n') line++;
+            else if (escaped === 'n' || escaped === 'l' || escaped === 'r') value += '\n';
+            else if (escaped === '"' || escaped === '\\') value += escaped;
+            else value += '\\' + escaped;
+            i += 2;
+          } else {
+            if (content[i] === '\n') line++;
+            value += content[i++];
+          }
+        }
+        if (i >= content.length) throw new DOTSyntaxError('Unterminated string', startLine);
+        i++;
+        // "a" + "b" concatenates quoted strings
+        const previous = tokens[tokens.length - 1];
+        const joined = tokens.length >= 2 && previous.type === 'punct' && previous.value === '+' &&
+          tokens[tokens.length - 2].quoted;
+        if (joined) {
+          tokens.pop();
+          tokens[tokens.length - 1].value += value;
+        } else {
+          tokens.push({ type: 'id', value, line: startLine, quoted: true });
+        }
+      } else if (char === '<') {
+        let depth = 0;
+        const start = i;
+        do {
+          if (content[i] === '<') depth++;
+          else if (content[i] === '>') depth--;
+          else if (content[i] === '\n') line++;
+          i++;
+        } while (depth > 0 && i < content.length);
+        if (depth > 0) throw new DOTSyntaxError('Unterminated HTML string', startLine);
+        tokens.push({ type: 'id', value: content.slice(start + 1, i - 1), line: startLine, quoted: true });
+      } else if (content.startsWith('->', i) || content.startsWith('--', i)) {
+        tokens.push({ type: 'edgeop', value: content.slice(i, i + 2), line });
+        i += 2;
+      } else if ('{}[];,=:+'.includes(char)) {
+        tokens.push({ type: 'punct', value: char, line });
+        i++;
+      } else {
+        DOT_ID.lastIndex = i;
+        const match = DOT_ID.exec(content);
+        if (!match) throw new DOTSyntaxError(`Unexpected character "${char}"`, line);
+        tokens.push({ type: 'id', value: match[0], line });
+        i += match[0].length;
+      }
+    }
+
+    tokens.push({ type: 'end', value: '', line });
+    return tokens;
+  }
+}
@@ -0,0 +1,416 @@
+// Drawing of the course graph, shared by the interactive canvas and image exports
+
+import { CourseNode, GraphData, GraphEdge } from '../types/Course';
+import { GraphLayout, Point } from '../types/Layout';
+import { PrerequisiteCycle } from '../algorithms/CycleDetection';
+import { CourseClosure } from '../algorithms/Closure';
+import { DiffHighlight } from '../algorithms/CurriculumDiff';
+import { RequirementGroups } from '../algorithms/Requirements';
+
+export interface NodeStyle {
+  radius: number;
+  /** Score scaled to 0..1 across the graph */
+  normalizedScore: number;
+}
+
+export interface ViewTransform {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+/** Everything needed to draw the graph as it appears on screen */
+export interface GraphScene {
+  graph: GraphData;
+  layout: GraphLayout;
+  nodeStyles: Map<string, NodeStyle>;
+  highlightedCycles: PrerequisiteCycle[];
+  selectedCourseId: string | null;
+  hoveredCourseId: string | null;
+  focus: CourseClosure | null;
+  /** Changes against a previous version, drawn in green (added) and red (removed) */
+  diff: DiffHighlight | null;
+  scoreLabel: string;
+  formatScore: (score: number) => string;
+}
+
+export interface SceneHighlights {
+  cycleCourses: Set<string>;
+  cycleEdges: Set<string>;
+  /** Focused course and its prerequisites */
+  upstream: Set<string>;
+  /** Focused course and the courses it unlocks */
+  downstream: Set<string>;
+}
+
+export interface EdgeAppearance {
+  color: string;
+  width: number;
+  dash: number[];
+  alpha: number;
+}
+
+export interface NodeAppearance {
+  innerColor: string;
+  outerColor: string;
+  stroke: string;
+  strokeWidth: number;
+  alpha: number;
+  /** Course ID shortened to fit inside the node */
+  label: string;
+}
+
+export type EdgeGeometry =
+  | { type: 'loop'; center: Point; radius: number }
+  | { type: 'curve'; start: Point; segments: { control: Point; end: Point }[]; arrow: [Point, Point, Point] };
+
+export const FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+export const LEGEND = { x: 20, y: 20, width: 220, height: 178 };
+
+export const LEGEND_EDGE_STYLES: { label: string; color: string; dash: number[] }[] = [
+  { label: 'Required prerequisite', color: '#94A3B8', dash: [] },
+  { label: 'One of several alternatives', color: '#A855F7', dash: [] },
+  { label: 'Corequisite', color: '#94A3B8', dash: [2, 4] },
+  { label: 'Recommended (thickness = weight)', color: '#94A3B8', dash: [8, 6] }
+];
+
+export const SCORE_SCALE_STOPS: [number, string][] = [
+  [0, 'hsl(160, 70%, 55%)'],
+  [0.5, 'hsl(200, 70%, 55%)'],
+  [1, 'hsl(240, 70%, 55%)']
+];
+
+const ARROW_LENGTH = 12;
+const ARROW_ANGLE = Math.PI / 6;
+
+export class GraphRenderer {
+  /**
+   * Node size based on score
+   */
+  static nodeStyles(graph: GraphData): Map<string, NodeStyle> {
+    const styles = new Map<string, NodeStyle>();
+    const { min, max } = GraphRenderer.scoreRange(graph);
+    const range = max - min;
+    graph.nodes.forEach(node => {
+      const normalizedScore = range > 0 ? (node.score - min) / range : 0.5;
+      styles.set(node.id, { radius: 20 + normalizedScore * 15, normalizedScore });
+    });
+    return styles;
+  }
+
+  static scoreRange(graph: GraphData): { min: number; max: number } {
+    const scores = graph.nodes.map(node => node.score);
+    return { min: Math.min(...scores), max: Math.max(...scores) };
+  }
+
+  static highlights(scene: GraphScene): SceneHighlights {
+    const { highlightedCycles, focus } = scene;
+    // Courses and edges that are part of a highlighted cycle
+    const cycleCourses = new Set<string>();
+    const cycleEdges = new Set<string>();
+    highlightedCycles.forEach(cycle => {
+      cycle.courses.forEach(id => cycleCourses.add(id));
+      cycle.edges.forEach(edge => cycleEdges.add(`${edge.prerequisite}->${edge.course}`));
+    });
+
+    return {
+      cycleCourses,
+      cycleEdges,
+      upstream: new Set(focus ? [focus.courseId, ...focus.ancestors] : []),
+      downstream: new Set(focus ? [focus.courseId, ...focus.descendants] : [])
+    };
+  }
+
+  /**
+   * Alternatives (one-of groups) are purple, corequisites dotted, recommended
+   * prerequisites dashed; thickness follows the edge weight. Cycle, focus,
+   * selection and diff highlighting take precedence over the requirement styling.
+   */
+  static edgeAppearance(edge: GraphEdge, scene: GraphScene, highlights: SceneHighlights): EdgeAppearance {
+    const { source, target, kind, group, strength } = edge;
+    const { selectedCourseId, focus, diff } = scene;
+    const { cycleEdges, upstream, downstream } = highlights;
+
+    const key = `${source}->${target}`;
+    if (diff && (diff.addedEdges.has(key) || diff.removedEdges.has(key))) {
+      const added = diff.addedEdges.has(key);
+      return {
+        color: added ? '#16A34A' : '#E11D48',
+        width: 3,
+        dash: added ? [] : [6, 4],
+        alpha: 0.9
+      };
+    }
+
+    const inCycle = cycleEdges.has(`${source}->${target}`);
+    const touchesSelection = selectedCourseId !== null && (source === selectedCourseId || target === selectedCourseId);
+    const onFocusPath = focus !== null && (
+      (upstream.has(source) && upstream.has(target)) ||
+      (downstream.has(source) && downstream.has(target))
+    );
+    const focusColor = upstream.has(target) ? '#2563EB' : '#059669';
+    const weightWidth = Math.min(Math.max(RequirementGroups.edgeWeight(edge) * 2, 1), 6);
+
+    return {
+      color: inCycle
+        ? '#DC2626'
+        : onFocusPath ? focusColor : touchesSelection ? '#F59E0B' : group !== undefined ? '#A855F7' : '#94A3B8',
+      width: inCycle || touchesSelection || onFocusPath ? Math.max(weightWidth, 3) : weightWidth,
+      dash: kind === 'corequisite' ? [2, 4] : strength === 'recommended' ? [8, 6] : [],
+      alpha: focus !== null ? (onFocusPath ? 0.9 : 0.08) : diff !== null ? 0.35 : 0.7
+    };
+  }
+
+  static nodeAppearance(node: CourseNode, scene: GraphScene, highlights: SceneHighlights): NodeAppearance {
+    const { selectedCourseId, hoveredCourseId, focus, diff } = scene;
+    const { cycleCourses, upstream, downstream } = highlights;
+    const { normalizedScore } = scene.nodeStyles.get(node.id)!;
+
+    // Enhanced color scheme for foundational courses
+    const hue = 220 - normalizedScore * 60; // Blue to purple gradient
+    const saturation = 70 + normalizedScore * 20;
+    const lightness = 45 + normalizedScore * 10;
+
+    const isSelected = node.id === selectedCourseId;
+    const focusBorder = focus === null || isSelected
+      ? null
+      : upstream.has(node.id) ? '#2563EB' : downstream.has(node.id) ? '#059669' : null;
+    const isDimmed = focus !== null && !upstream.has(node.id) && !downstream.has(node.id);
+    const diffBorder = diff?.addedCourses.has(node.id) ? '#16A34A' : diff?.removedCourses.has(node.id) ? '#E11D48' : null;
+
+    return {
+      innerColor: `hsl(${hue}, ${saturation}%, ${lightness + 15}%)`,
+      outerColor: `hsl(${hue}, ${saturation}%, ${lightness}%)`,
+      stroke: isSelected
+        ? '#F59E0B'
+        : diffBorder ?? (
+          cycleCourses.has(node.id) ? '#DC2626' : node.id === hoveredCourseId ? '#1E293B' : focusBorder ?? '#FFFFFF'
+        ),
+      strokeWidth: isSelected || diffBorder ? 5 : 3,
+      alpha: isDimmed ? 0.2 : diff?.removedCourses.has(node.id) ? 0.45 : 1,
+      label: node.id.length > 10 ? node.id.substring(0, 8) + '...' : node.id
+    };
+  }
+
+  /**
+   * Path of an edge in layout coordinates: a curve through the bend points of
+   * long edges (or a single gentle curve) ending in an arrow just outside the
+   * target node, or a small circle for a course that requires itself
+   */
+  static edgeGeometry(edge: GraphEdge, scene: GraphScene): EdgeGeometry | null {
+    const { layout, nodeStyles } = scene;
+    const startPos = layout.positions.get(edge.source);
+    const endPos = layout.positions.get(edge.target);
+    if (!startPos || !endPos) return null;
+
+    if (edge.source === edge.target) {
+      return { type: 'loop', center: { x: startPos.x, y: startPos.y - 30 }, radius: 12 };
+    }
+
+    const route = layout.edgeRoutes.get(`${edge.source}->${edge.target}`);
+    const segments: { control: Point; end: Point }[] = [];
+    if (route) {
+      const points = [startPos, ...route, endPos];
+      for (let i = 1; i < points.length - 1; i++) {
+        const isLast = i === points.length - 2;
+        segments.push({
+          control: points[i],
+          end: isLast ? endPos : { x: (points[i].x + points[i + 1].x) / 2, y: (points[i].y + points[i + 1].y) / 2 }
+        });
+      }
+    } else {
+      const midX = (startPos.x + endPos.x) / 2;
+      const midY = (startPos.y + endPos.y) / 2;
+      segments.push({
+        control: {
+          x: midX + (endPos.x - startPos.x) * 0.1,
+          y: midY - Math.abs(endPos.y - startPos.y) * 0.3
+        },
+        end: endPos
+      });
+    }
+
+    const control = segments[segments.length - 1].control;
+    const angle = Math.atan2(endPos.y - control.y, endPos.x - control.x);
+    const arrowOffset = (nodeStyles.get(edge.target)?.radius ?? 20) + 4;
+    const tip = { x: endPos.x - arrowOffset * Math.cos(angle), y: endPos.y - arrowOffset * Math.sin(angle) };
+
+    return {
+      type: 'curve',
+      start: startPos,
+      segments,
+      arrow: [
+        { x: tip.x - ARROW_LENGTH * Math.cos(angle - ARROW_ANGLE), y: tip.y - ARROW_LENGTH * Math.sin(angle - ARROW_ANGLE) },
+        tip,
+        { x: tip.x - ARROW_LENGTH * Math.cos(angle + ARROW_ANGLE), y: tip.y - ARROW_LENGTH * Math.sin(angle + ARROW_ANGLE) }
+      ]
+    };
+  }
+
+  /**
+   * Draw edges, nodes and the legend. The graph is drawn through `view`; the
+   * legend stays fixed in the top-left corner of the context.
+   */
+  static draw(ctx: CanvasRenderingContext2D, scene: GraphScene, view: ViewTransform): void {
+    const { graph, layout, nodeStyles, formatScore } = scene;
+    const highlights = GraphRenderer.highlights(scene);
+
+    ctx.save();
+    ctx.translate(view.x, view.y);
+    ctx.scale(view.scale, view.scale);
+
+    // Draw edges first (so they appear behind nodes)
+    graph.edges.forEach(edge => {
+      const geometry = GraphRenderer.edgeGeometry(edge, scene);
+      if (!geometry) return;
+      const appearance = GraphRenderer.edgeAppearance(edge, scene, highlights);
+      ctx.strokeStyle = appearance.color;
+      ctx.lineWidth = appearance.width;
+      ctx.globalAlpha = appearance.alpha;
+      ctx.setLineDash(appearance.dash);
+
+      ctx.beginPath();
+      if (geometry.type === 'loop') {
+        ctx.arc(geometry.center.x, geometry.center.y, geometry.radius, 0, 2 * Math.PI);
+        ctx.stroke();
+        return;
+      }
+
+      ctx.moveTo(geometry.start.x, geometry.start.y);
+      geometry.segments.forEach(({ control, end }) => ctx.quadraticCurveTo(control.x, control.y, end.x, end.y));
+      ctx.stroke();
+
+      const [left, tip, right] = geometry.arrow;
+      ctx.setLineDash([]);
+      ctx.beginPath();
+      ctx.moveTo(left.x, left.y);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.lineTo(right.x, right.y);
+      ctx.stroke();
+    });
+
+    // Reset alpha and dash for nodes
+    ctx.globalAlpha = 1;
+    ctx.setLineDash([]);
+
+    // Draw nodes
+    graph.nodes.forEach(node => {
+      const pos = layout.positions.get(node.id);
+      if (!pos) return;
+
+      const { radius } = nodeStyles.get(node.id)!;
+      const appearance = GraphRenderer.nodeAppearance(node, scene, highlights);
+      ctx.globalAlpha = appearance.alpha;
+
+      // Gradient fill
+      const gradient = ctx.createRadialGradient(pos.x, pos.y, 0, pos.x, pos.y, radius);
+      gradient.addColorStop(0, appearance.innerColor);
+      gradient.addColorStop(1, appearance.outerColor);
+
+      ctx.fillStyle = gradient;
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y, radius, 0, 2 * Math.PI);
+      ctx.fill();
+
+      // Enhanced border with shadow effect
+      ctx.shadowColor = 'rgba(0, 0, 0, 0.2)';
+      ctx.shadowBlur = 4;
+      ctx.shadowOffsetX = 2;
+      ctx.shadowOffsetY = 2;
+
+      ctx.strokeStyle = appearance.stroke;
+      ctx.lineWidth = appearance.strokeWidth;
+      ctx.stroke();
+
+      // Reset shadow
+      ctx.shadowColor = 'transparent';
+      ctx.shadowBlur = 0;
+      ctx.shadowOffsetX = 0;
+      ctx.shadowOffsetY = 0;
+
+      // Course ID text with better typography
+      ctx.fillStyle = '#FFFFFF';
+      ctx.font = `bold 12px ${FONT_FAMILY}`;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(appearance.label, pos.x, pos.y);
+
+      // Score text below node
+      ctx.fillStyle = '#64748B';
+      ctx.font = `10px ${FONT_FAMILY}`;
+      ctx.fillText(formatScore(node.score), pos.x, pos.y + radius + 15);
+    });
+
+    ctx.globalAlpha = 1;
+    ctx.restore();
+
+    GraphRenderer.drawLegend(ctx, scene);
+  }
+
+  private static drawLegend(ctx: CanvasRenderingContext2D, scene: GraphScene): void {
+    const { scoreLabel, formatScore } = scene;
+    const { min, max } = GraphRenderer.scoreRange(scene.graph);
+    const { x: legendX, y: legendY, width: legendWidth, height: legendHeight } = LEGEND;
+
+    // Legend background with gradient
+    const legendGradient = ctx.createLinearGradient(legendX, legendY, legendX, legendY + legendHeight);
+    legendGradient.addColorStop(0, 'rgba(255, 255, 255, 0.95)');
+    legendGradient.addColorStop(1, 'rgba(248, 250, 252, 0.95)');
+
+    ctx.fillStyle = legendGradient;
+    ctx.fillRect(legendX, legendY, legendWidth, legendHeight);
+
+    ctx.strokeStyle = '#E2E8F0';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(legendX, legendY, legendWidth, legendHeight);
+
+    // Legend title
+    ctx.fillStyle = '#1E293B';
+    ctx.font = `bold 14px ${FONT_FAMILY}`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`${scoreLabel}s`, legendX + 15, legendY + 25);
+
+    // Legend description
+    ctx.font = `11px ${FONT_FAMILY}`;
+    ctx.fillStyle = '#64748B';
+    ctx.fillText('Higher scores = More central', legendX + 15, legendY + 45);
+
+    // Legend scale values
+    ctx.font = `10px ${FONT_FAMILY}`;
+    ctx.fillText(`High: ${formatScore(max)}`, legendX + 15, legendY + 65);
+    ctx.fillText(`Low: ${formatScore(min)}`, legendX + 15, legendY + 80);
+
+    // Enhanced color scale
+    const scaleWidth = 80;
+    const scaleHeight = 12;
+    const scaleX = legendX + 130;
+    const scaleY = legendY + 60;
+
+    const scaleGradient = ctx.createLinearGradient(scaleX, 0, scaleX + scaleWidth, 0);
+    SCORE_SCALE_STOPS.forEach(([offset, color]) => scaleGradient.addColorStop(offset, color));
+
+    ctx.fillStyle = scaleGradient;
+    ctx.fillRect(scaleX, scaleY, scaleWidth, scaleHeight);
+
+    ctx.strokeStyle = '#CBD5E1';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(scaleX, scaleY, scaleWidth, scaleHeight);
+
+    // Edge style key
+    LEGEND_EDGE_STYLES.forEach(({ label, color, dash }, index) => {
+      const y = legendY + 102 + index * 18;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 2;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      ctx.moveTo(legendX + 15, y);
+      ctx.lineTo(legendX + 45, y);
+      ctx.stroke();
+      ctx.setLineDash([]);
+      ctx.fillStyle = '#64748B';
+      ctx.fillText(label, legendX + 55, y);
+    });
+  }
+}
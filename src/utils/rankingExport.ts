@@ -0,0 +1,162 @@
+// Ranking reports exported as JSON, CSV or Markdown
+
+import { ConvergenceInfo, CourseNode } from '../types/Course';
+import { RankingAlgorithm } from '../algorithms/RankingAlgorithm';
+import { RankingAlgorithms, RankingSettings } from '../algorithms/registry';
+import { CSVFormat } from './csvFormat';
+
+export type RankingExportFormat = 'json' | 'csv' | 'markdown';
+
+export interface RankingReport {
+  /** ISO 8601 time at which the ranking was computed */
+  generatedAt: string;
+  algorithm: {
+    id: string;
+    name: string;
+    scoreLabel: string;
+    parameters: Record<string, string | number | boolean>;
+  };
+  convergence?: Omit<ConvergenceInfo, 'residualHistory'>;
+  dataset: {
+    courses: number;
+    prerequisites: number;
+  };
+  /** Exported courses, ordered by rank */
+  courses: CourseNode[];
+}
+
+export const RANKING_EXPORT_FORMATS: { id: RankingExportFormat; name: string; extension: string; mimeType: string }[] = [
+  { id: 'csv', name: 'CSV (Excel compatible)', extension: 'csv', mimeType: 'text/csv' },
+  { id: 'json', name: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { id: 'markdown', name: 'Markdown table', extension: 'md', mimeType: 'text/markdown' }
+];
+
+export class RankingExport {
+  static build(
+    algorithm: RankingAlgorithm,
+    settings: RankingSettings,
+    courses: CourseNode[],
+    dataset: RankingReport['dataset'],
+    convergence?: ConvergenceInfo,
+    generatedAt: Date = new Date()
+  ): RankingReport {
+    const report: RankingReport = {
+      generatedAt: generatedAt.toISOString(),
+      algorithm: {
+        id: algorithm.id,
+        name: algorithm.name,
+        scoreLabel: algorithm.scoreLabel,
+        parameters: RankingAlgorithms.parameters(settings)
+      },
+      dataset,
+      courses
+    };
+    if (convergence) {
+      const { iterations, residual, converged } = convergence;
+      report.convergence = { iterations, residual, converged };
+    }
+    return report;
+  }
+
+  static format(report: RankingReport, format: RankingExportFormat): string {
+    switch (format) {
+      case 'json':
+        return RankingExport.toJSON(report);
+      case 'csv':
+        return RankingExport.toCSV(report);
+      case 'markdown':
+        return RankingExport.toMarkdown(report);
+    }
+  }
+
+  static toJSON(report: RankingReport): string {
+    const { courses, ...metadata } = report;
+    return JSON.stringify({
+      ...metadata,
+      rankings: courses.map(course => ({
+        rank: course.rank,
+        id: course.id,
+        name: course.name,
+        description: course.description,
+        credits: course.credits,
+        score: course.score,
+        inDegree: course.inDegree,
+        outDegree: course.outDegree,
+        prerequisites: course.prerequisites,
+        dependents: course.dependents
+      }))
+    }, null, 2) + '\n';
+  }
+
+  /**
+   * RFC 4180 CSV with CRLF line endings and a byte order mark so that
+   * spreadsheet applications detect UTF-8. Run metadata is repeated on each
+   * row to keep the file a single table.
+   */
+  static toCSV(report: RankingReport): string {
+    const header = [
+      'Rank', 'Course ID', 'Course Name', 'Credits', report.algorithm.scoreLabel,
+      'Prerequisite Count', 'Dependent Count', 'Prerequisites', 'Dependents',
+      'Algorithm', 'Parameters', 'Generated At'
+    ];
+    const parameters = RankingExport.describeParameters(report);
+    const rows = report.courses.map(course => CSVFormat.formatRow([
+      course.rank,
+      course.id,
+      course.name,
+      course.credits ?? '',
+      course.score,
+      course.outDegree,
+      course.inDegree,
+      course.prerequisites.join('; '),
+      course.dependents.join('; '),
+      report.algorithm.name,
+      parameters,
+      report.generatedAt
+    ]));
+    return '\uFEFF' + [CSVFormat.formatRow(header), ...rows].join('\r\n') + '\r\n';
+  }
+
+  static toMarkdown(report: RankingReport): string {
+    const { algorithm, convergence, dataset, generatedAt } = report;
+    const lines = [
+      `# Course Rankings: ${algorithm.name}`,
+      '',
+      `- **Generated:** ${generatedAt}`,
+      `- **Dataset:** ${dataset.courses} courses, ${dataset.prerequisites} prerequisites`,
+      `- **Parameters:** ${RankingExport.describeParameters(report) || 'none'}`
+    ];
+    if (convergence) {
+      lines.push(
+        `- **Convergence:** ${convergence.converged ? 'converged' : 'stopped at the iteration limit'} ` +
+        `after ${convergence.iterations} iterations (residual ${convergence.residual.toExponential(2)})`
+      );
+    }
+
+    const cell = (value: string | number) => String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    lines.push(
+      '',
+      `| Rank | Course | Name | Credits | ${cell(algorithm.scoreLabel)} | Prereqs | Unlocks | Prerequisites | Dependents |`,
+      '| ---: | --- | --- | ---: | ---: | ---: | ---: | --- | --- |',
+      ...report.courses.map(course => '| ' + [
+        course.rank,
+        `\`${cell(course.id)}\``,
+        cell(course.name),
+        course.credits ?? '',
+        course.score.toFixed(6),
+        course.outDegree,
+        course.inDegree,
+        cell(course.prerequisites.join(', ')),
+        cell(course.dependents.join(', '))
+      ].join(' | ') + ' |')
+    );
+    return lines.join('\n') + '\n';
+  }
+
+  private static describeParameters(report: RankingReport): string {
+    return Object.entries(report.algorithm.parameters)
+      .filter(([, value]) => value !== '')
+      .map(([key, value]) => `${key}=${value}`)
+      .join('; ');
+  }
+}
@@ -0,0 +1,23 @@
+// Web Worker entry: runs ranking, layout, comparison and planning tasks off the main thread
+
+import { AnalysisTasks, AnalysisWorkerMessage, AnalysisWorkerRequest } from './analysisTasks';
+
+// Progress updates closer together than this are dropped
+const PROGRESS_STEP = 0.02;
+
+const post = (message: AnalysisWorkerMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { id, task } = event.data;
+  let reported = -Infinity;
+  try {
+    const result = AnalysisTasks.run(task, progress => {
+      if (progress.fraction < 1 && progress.fraction - reported < PROGRESS_STEP) return;
+      reported = progress.fraction;
+      post({ id, type: 'progress', progress });
+    });
+    post({ id, type: 'result', result });
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,108 @@
+// Main-thread side of the analysis worker: one task at a time, newer tasks cancel older ones
+
+import {
+  AnalysisProgress,
+  AnalysisTask,
+  AnalysisTaskResults,
+  AnalysisTasks,
+  AnalysisWorkerMessage,
+  AnalysisWorkerRequest
+} from './analysisTasks';
+
+/** Rejection reason of a task that was replaced by a newer one or disposed */
+export class AnalysisCancelledError extends Error {
+  constructor() {
+    super('The analysis was cancelled');
+    this.name = 'AnalysisCancelledError';
+  }
+}
+
+interface PendingTask {
+  id: number;
+  resolve: (result: AnalysisTaskResults[AnalysisTask['type']]) => void;
+  reject: (error: Error) => void;
+  onProgress: (progress: AnalysisProgress) => void;
+}
+
+export class AnalysisWorkerClient {
+  private worker: Worker | null = null;
+  private pending: PendingTask | null = null;
+  private nextId = 1;
+
+  /**
+   * Run a task in the worker, cancelling the one still running. Falls back
+   * to the main thread where Web Workers are not available.
+   */
+  run<T extends AnalysisTask>(
+    task: T,
+    onProgress: (progress: AnalysisProgress) => void = () => {}
+  ): Promise<AnalysisTaskResults[T['type']]> {
+    this.cancel();
+
+    if (typeof Worker === 'undefined') {
+      return Promise.resolve().then(() => AnalysisTasks.run(task, onProgress) as AnalysisTaskResults[T['type']]);
+    }
+
+    const worker = this.worker ?? this.createWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        id,
+        resolve: result => resolve(result as AnalysisTaskResults[T['type']]),
+        reject,
+        onProgress
+      };
+      const request: AnalysisWorkerRequest = { id, task };
+      worker.postMessage(request);
+    });
+  }
+
+  /**
+   * Cancel the running task. A worker cannot be interrupted mid-task, so it
+   * is terminated and a fresh one is started for the next task.
+   */
+  cancel(): void {
+    if (!this.pending) return;
+    const { reject } = this.pending;
+    this.pending = null;
+    this.worker?.terminate();
+    this.worker = null;
+    reject(new AnalysisCancelledError());
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.worker?.terminate();
+    this.worker = null;
+  }
+
+  private createWorker(): Worker {
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      const pending = this.pending;
+      // Late messages from a cancelled task
+      if (!pending || message.id !== pending.id) return;
+
+      if (message.type === 'progress') {
+        pending.onProgress(message.progress);
+        return;
+      }
+      this.pending = null;
+      if (message.type === 'result') pending.resolve(message.result);
+      else pending.reject(new Error(message.message));
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      const pending = this.pending;
+      this.pending = null;
+      worker.terminate();
+      if (this.worker === worker) this.worker = null;
+      pending?.reject(new Error(event.message || 'The analysis worker failed'));
+    };
+
+    this.worker = worker;
+    return worker;
+  }
+}
@@ -0,0 +1,230 @@
+// Ranking, layout, comparison and planning computations that run inside the analysis worker
+
+import { ConvergenceInfo, Course, GraphData, Prerequisite, RankingResult, TranscriptEntry } from '../types/Course';
+import { GraphLayout, LayoutMode } from '../types/Layout';
+import { GraphAnalysis } from '../algorithms/GraphAnalysis';
+import { CycleDetector, PrerequisiteCycle } from '../algorithms/CycleDetection';
+import { LayeredLayout } from '../algorithms/LayeredLayout';
+import { ForceLayout } from '../algorithms/ForceLayout';
+import { CurriculumDiff, CurriculumDiffResult, CurriculumVersion } from '../algorithms/CurriculumDiff';
+import { WhatIfAnalysis, WhatIfResult, WhatIfScenario } from '../algorithms/WhatIf';
+import { StudyPlan, StudyPlanner, StudyPlanOptions } from '../algorithms/StudyPlan';
+import { EligibilityChecker, EligibilityReport } from '../algorithms/Eligibility';
+import { RankCorrelation } from '../algorithms/RankCorrelation';
+import { RankingAlgorithms, RankingSettings } from '../algorithms/registry';
+
+export interface RankingTaskInput {
+  settings: RankingSettings;
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+export interface RankingTaskResult {
+  graph: GraphData;
+  /** Present for iterative algorithms */
+  convergence?: ConvergenceInfo;
+  /** Global PageRank ranks to compare a personalized ranking against */
+  globalRanks: Map<string, number> | null;
+  cycles: PrerequisiteCycle[];
+  rankedAt: Date;
+}
+
+export interface LayoutTaskInput {
+  mode: LayoutMode;
+  courseIds: string[];
+  prerequisites: Prerequisite[];
+}
+
+export interface ConfigurationsTaskInput {
+  configurations: RankingSettings[];
+  courses: Course[];
+  prerequisites: Prerequisite[];
+}
+
+export interface ConfigurationCorrelation {
+  /** Indices of the two configurations, with a < b */
+  a: number;
+  b: number;
+  kendall: number;
+  spearman: number;
+}
+
+export interface ConfigurationsTaskResult {
+  /** Ranking of each configuration, in the order given */
+  runs: { settings: RankingSettings; results: RankingResult[] }[];
+  /** One entry per unordered pair of configurations */
+  correlations: ConfigurationCorrelation[];
+}
+
+export interface DiffTaskInput {
+  previous: CurriculumVersion;
+  current: CurriculumVersion;
+}
+
+export interface WhatIfTaskInput {
+  baseline: CurriculumVersion;
+  scenario: WhatIfScenario;
+}
+
+export interface StudyPlanTaskInput {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+  options: StudyPlanOptions;
+}
+
+export interface EligibilityTaskInput {
+  courses: Course[];
+  prerequisites: Prerequisite[];
+  transcript: TranscriptEntry[];
+}
+
+/** Result type of each task, keyed by task type */
+export interface AnalysisTaskResults {
+  rank: RankingTaskResult;
+  layout: GraphLayout;
+  configurations: ConfigurationsTaskResult;
+  diff: CurriculumDiffResult;
+  whatIf: WhatIfResult;
+  studyPlan: StudyPlan;
+  eligibility: EligibilityReport;
+}
+
+export type AnalysisTask =
+  | { type: 'rank'; input: RankingTaskInput }
+  | { type: 'layout'; input: LayoutTaskInput }
+  | { type: 'configurations'; input: ConfigurationsTaskInput }
+  | { type: 'diff'; input: DiffTaskInput }
+  | { type: 'whatIf'; input: WhatIfTaskInput }
+  | { type: 'studyPlan'; input: StudyPlanTaskInput }
+  | { type: 'eligibility'; input: EligibilityTaskInput };
+
+export interface AnalysisProgress {
+  /** What is being computed, e.g. "Ranking courses" */
+  stage: string;
+  /** Fraction of the whole task done, from 0 to 1 */
+  fraction: number;
+}
+
+/** Messages from the worker; `id` is the request they answer */
+export type AnalysisWorkerMessage =
+  | { id: number; type: 'progress'; progress: AnalysisProgress }
+  | { id: number; type: 'result'; result: AnalysisTaskResults[AnalysisTask['type']] }
+  | { id: number; type: 'error'; message: string };
+
+export interface AnalysisWorkerRequest {
+  id: number;
+  task: AnalysisTask;
+}
+
+type ProgressCallback = (progress: AnalysisProgress) => void;
+
+export class AnalysisTasks {
+  static run(task: AnalysisTask, onProgress: ProgressCallback): AnalysisTaskResults[AnalysisTask['type']] {
+    switch (task.type) {
+      case 'rank':
+        return AnalysisTasks.rank(task.input, onProgress);
+      case 'layout':
+        return AnalysisTasks.layout(task.input, onProgress);
+      case 'configurations':
+        return AnalysisTasks.configurations(task.input, onProgress);
+      case 'diff':
+        return AnalysisTasks.diff(task.input, onProgress);
+      case 'whatIf':
+        return AnalysisTasks.whatIf(task.input, onProgress);
+      case 'studyPlan':
+        return AnalysisTasks.studyPlan(task.input, onProgress);
+      case 'eligibility':
+        return AnalysisTasks.eligibility(task.input, onProgress);
+    }
+  }
+
+  /**
+   * Rank courses with the configured algorithm, plus the global PageRank
+   * ranking when the configuration is personalized, and find cycles
+   */
+  static rank({ settings, courses, prerequisites }: RankingTaskInput, onProgress: ProgressCallback): RankingTaskResult {
+    const personalized = settings.algorithm === 'pagerank' && settings.targetCourses.length > 0;
+
+    onProgress({ stage: 'Ranking courses', fraction: 0 });
+    const { graph, convergence } = GraphAnalysis.analyze(RankingAlgorithms.create(settings), courses, prerequisites);
+
+    let globalRanks: Map<string, number> | null = null;
+    if (personalized) {
+      onProgress({ stage: 'Ranking for the whole catalog', fraction: 0.45 });
+      const globalAlgorithm = RankingAlgorithms.create({ ...settings, targetCourses: [] });
+      globalRanks = new Map(
+        globalAlgorithm.rank(courses, prerequisites).results.map(result => [result.courseId, result.rank])
+      );
+    }
+
+    onProgress({ stage: 'Detecting cycles', fraction: 0.9 });
+    const cycles = CycleDetector.findCycles(courses.map(course => course.id), prerequisites);
+
+    return { graph, convergence, globalRanks, cycles, rankedAt: new Date() };
+  }
+
+  static layout({ mode, courseIds, prerequisites }: LayoutTaskInput, onProgress: ProgressCallback): GraphLayout {
+    const stage = mode === 'force' ? 'Simulating forces' : 'Arranging layers';
+    onProgress({ stage, fraction: 0 });
+    return mode === 'force'
+      ? ForceLayout.compute(courseIds, prerequisites, { onProgress: fraction => onProgress({ stage, fraction }) })
+      : LayeredLayout.compute(courseIds, prerequisites);
+  }
+
+  /**
+   * Rank the same data with each configuration and correlate every pair of
+   * rankings once
+   */
+  static configurations(
+    { configurations, courses, prerequisites }: ConfigurationsTaskInput,
+    onProgress: ProgressCallback
+  ): ConfigurationsTaskResult {
+    const runs = configurations.map((settings, index) => {
+      onProgress({
+        stage: `Ranking configuration ${index + 1} of ${configurations.length}`,
+        fraction: (index / configurations.length) * 0.8
+      });
+      return { settings, results: RankingAlgorithms.create(settings).rank(courses, prerequisites).results };
+    });
+
+    onProgress({ stage: 'Correlating rankings', fraction: 0.8 });
+    const correlations: ConfigurationCorrelation[] = [];
+    runs.forEach(({ results: a }, i) => {
+      runs.slice(i + 1).forEach(({ results: b }, offset) => {
+        correlations.push({
+          a: i,
+          b: i + 1 + offset,
+          kendall: RankCorrelation.kendallTau(a, b),
+          spearman: RankCorrelation.spearman(a, b)
+        });
+      });
+    });
+    return { runs, correlations };
+  }
+
+  /**
+   * Rank two versions of a curriculum with default PageRank and compare them
+   */
+  static diff({ previous, current }: DiffTaskInput, onProgress: ProgressCallback): CurriculumDiffResult {
+    onProgress({ stage: 'Ranking both versions', fraction: 0 });
+    return CurriculumDiff.compare(previous, current);
+  }
+
+  static whatIf({ baseline, scenario }: WhatIfTaskInput, onProgress: ProgressCallback): WhatIfResult {
+    onProgress({ stage: 'Evaluating the scenario', fraction: 0 });
+    return WhatIfAnalysis.analyze(baseline, scenario);
+  }
+
+  static studyPlan({ courses, prerequisites, options }: StudyPlanTaskInput, onProgress: ProgressCallback): StudyPlan {
+    onProgress({ stage: 'Scheduling terms', fraction: 0 });
+    return StudyPlanner.plan(courses, prerequisites, options);
+  }
+
+  static eligibility(
+    { courses, prerequisites, transcript }: EligibilityTaskInput,
+    onProgress: ProgressCallback
+  ): EligibilityReport {
+    onProgress({ stage: 'Checking the transcript', fraction: 0 });
+    return EligibilityChecker.check(courses, prerequisites, transcript);
+  }
+}
@@ -0,0 +1,56 @@
+// React binding for the analysis worker
+
+import { useEffect, useRef, useState } from 'react';
+import { AnalysisProgress, AnalysisTask, AnalysisTaskResults } from './analysisTasks';
+import { AnalysisCancelledError, AnalysisWorkerClient } from './analysisClient';
+
+export interface AnalysisTaskState<R> {
+  /** Latest finished result; kept while a newer task runs so the view does not go blank */
+  result: R | null;
+  /** Progress of the running task, or null when idle */
+  progress: AnalysisProgress | null;
+  error: string | null;
+}
+
+/**
+ * Run a task in a worker owned by the calling component whenever the task
+ * object changes (memoize it), cancelling the previous run. A null task
+ * cancels the running one and clears the result.
+ */
+export function useAnalysisTask<T extends AnalysisTask>(task: T | null): AnalysisTaskState<AnalysisTaskResults[T['type']]> {
+  const clientRef = useRef<AnalysisWorkerClient | null>(null);
+  const [state, setState] = useState<AnalysisTaskState<AnalysisTaskResults[T['type']]>>(() => ({
+    result: null,
+    progress: task ? { stage: 'Starting', fraction: 0 } : null,
+    error: null
+  }));
+
+  useEffect(() => {
+    if (!task) {
+      clientRef.current?.cancel();
+      setState({ result: null, progress: null, error: null });
+      return;
+    }
+
+    const client = clientRef.current ?? new AnalysisWorkerClient();
+    clientRef.current = client;
+    setState(current => ({ ...current, progress: { stage: 'Starting', fraction: 0 }, error: null }));
+
+    client
+      .run(task, progress => setState(current => ({ ...current, progress })))
+      .then(result => setState({ result, progress: null, error: null }))
+      .catch((err: Error) => {
+        if (err instanceof AnalysisCancelledError) return;
+        console.error('Analysis error:', err);
+        setState(current => ({ ...current, progress: null, error: err.message }));
+      });
+  }, [task]);
+
+  // Stop the worker with the component
+  useEffect(() => () => {
+    clientRef.current?.dispose();
+    clientRef.current = null;
+  }, []);
+
+  return state;
+}